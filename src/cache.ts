@@ -0,0 +1,119 @@
+import { getCachedCheck, setCachedCheck } from "./db";
+import { createInvalidResult } from "./checkers/base";
+import type { Checker, CheckerCategory, CheckResult } from "./types";
+
+// use: read and write the cache
+// refresh: skip cached results but store fresh ones
+// off: bypass the cache entirely
+export type CacheMode = "use" | "refresh" | "off";
+
+const HOUR = 60 * 60 * 1000;
+
+// Default TTLs per checker category, overridable via Checker.cacheTtl
+const DEFAULT_TTL_BY_CATEGORY: Record<CheckerCategory, number> = {
+  package: 6 * HOUR,
+  repository: 6 * HOUR,
+  domain: 1 * HOUR,
+  uniqueness: 24 * HOUR,
+  trademark: 24 * HOUR,
+  similarity: 24 * HOUR,
+  container: 6 * HOUR,
+  social: 6 * HOUR,
+  // Local lookups are cheap and $PATH changes, so never cache them
+  command: 0,
+};
+
+let cacheMode: CacheMode = "use";
+
+export function setCacheMode(mode: CacheMode): void {
+  cacheMode = mode;
+}
+
+export function getCacheMode(): CacheMode {
+  return cacheMode;
+}
+
+// Map commander's --no-cache / --refresh flags to a cache mode
+export function resolveCacheMode(options: {
+  cache?: boolean;
+  refresh?: boolean;
+}): CacheMode {
+  if (options.cache === false) return "off";
+  if (options.refresh) return "refresh";
+  return "use";
+}
+
+export function getCacheTtl(checker: Checker): number {
+  return checker.cacheTtl ?? DEFAULT_TTL_BY_CATEGORY[checker.category];
+}
+
+// Run a checker for a name: apply the registry's naming rules, then serve
+// the canonical name from the cache or check it live. `mode` overrides the
+// global cache mode for this one check.
+export async function checkWithCache(
+  checker: Checker,
+  name: string,
+  mode: CacheMode = cacheMode,
+): Promise<CheckResult> {
+  const validation = checker.normalize?.(name) ?? { valid: true, name };
+  if (!validation.valid) {
+    return createInvalidResult(checker.name, name, validation.reason);
+  }
+
+  const result = await lookup(checker, validation.name, mode);
+  if (validation.name === name) return result;
+
+  // Report against the name the user asked about
+  return { ...result, name, canonicalName: validation.name };
+}
+
+async function lookup(
+  checker: Checker,
+  name: string,
+  mode: CacheMode,
+): Promise<CheckResult> {
+  const ttl = getCacheTtl(checker);
+
+  if (mode === "use" && ttl > 0) {
+    try {
+      const hit = getCachedCheck(checker.name, name, ttl / 1000);
+      if (hit) {
+        const result = JSON.parse(hit.result) as CheckResult;
+        return { ...result, cached: true, checkedAt: hit.checkedAt };
+      }
+    } catch {
+      // The cache is best-effort, fall through to a live check
+    }
+  }
+
+  const result = await checker.check(name);
+
+  // Only definitive answers are worth remembering
+  if (
+    mode !== "off" &&
+    ttl > 0 &&
+    (result.status === "available" || result.status === "taken")
+  ) {
+    try {
+      setCachedCheck(checker.name, name, JSON.stringify(result));
+    } catch {
+      // Ignore cache write failures (e.g. read-only config dir)
+    }
+  }
+
+  return result;
+}
+
+// Human-readable age of a cached result, e.g. "5m ago"
+export function formatCacheAge(checkedAt: string): string {
+  // SQLite datetime('now') is UTC without a zone suffix
+  const checkedMs = Date.parse(`${checkedAt.replace(" ", "T")}Z`);
+  if (isNaN(checkedMs)) return "cached";
+
+  const minutes = Math.max(0, Math.round((Date.now() - checkedMs) / 60000));
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+}
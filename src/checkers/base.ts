@@ -1,26 +1,289 @@
-import { USER_AGENT, DEFAULT_TIMEOUT, type CheckResult } from "../types";
+import {
+  USER_AGENT,
+  DEFAULT_TIMEOUT,
+  type AvailabilityStatus,
+  type CheckResult,
+} from "../types";
 
-export async function fetchWithTimeout(
+// Per-host request policy: concurrency cap plus a token bucket
+interface HostPolicy {
+  concurrency: number; // Max in-flight requests
+  ratePerSecond: number; // Token refill rate
+  burst: number; // Bucket size
+}
+
+const DEFAULT_HOST_POLICY: HostPolicy = {
+  concurrency: 6,
+  ratePerSecond: 10,
+  burst: 10,
+};
+
+// Hosts with tight (or aggressively enforced) limits
+const HOST_POLICIES: Record<string, HostPolicy> = {
+  "api.github.com": { concurrency: 4, ratePerSecond: 5, burst: 10 },
+  "gitlab.com": { concurrency: 2, ratePerSecond: 2, burst: 4 },
+  "pkg.go.dev": { concurrency: 2, ratePerSecond: 2, burst: 4 },
+  "packagist.org": { concurrency: 3, ratePerSecond: 5, burst: 5 },
+  "search.maven.org": { concurrency: 2, ratePerSecond: 3, burst: 6 },
+  "codeberg.org": { concurrency: 2, ratePerSecond: 2, burst: 4 },
+  "api.bitbucket.org": { concurrency: 3, ratePerSecond: 3, burst: 6 },
+};
+
+const MAX_RETRIES = 2;
+const BASE_BACKOFF_MS = 500;
+// Longest we'll wait for a rate limit to reset before reporting it
+const MAX_RATE_LIMIT_WAIT_MS = 30000;
+
+interface HostState {
+  policy: HostPolicy;
+  active: number;
+  queue: Array<() => void>;
+  tokens: number;
+  lastRefill: number;
+  blockedUntil: number;
+}
+
+const hostStates = new Map<string, HostState>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function getHostState(key: string, host: string): HostState {
+  let state = hostStates.get(key);
+  if (!state) {
+    const policy = HOST_POLICIES[host] ?? DEFAULT_HOST_POLICY;
+    state = {
+      policy,
+      active: 0,
+      queue: [],
+      tokens: policy.burst,
+      lastRefill: Date.now(),
+      blockedUntil: 0,
+    };
+    hostStates.set(key, state);
+  }
+  return state;
+}
+
+async function acquireSlot(state: HostState): Promise<void> {
+  if (state.active < state.policy.concurrency) {
+    state.active++;
+    return;
+  }
+  // releaseSlot hands its slot straight to the next waiter
+  await new Promise<void>((resolve) => state.queue.push(resolve));
+}
+
+function releaseSlot(state: HostState): void {
+  const next = state.queue.shift();
+  if (next) {
+    next();
+  } else {
+    state.active--;
+  }
+}
+
+async function takeToken(state: HostState): Promise<void> {
+  while (true) {
+    const now = Date.now();
+    if (state.blockedUntil > now) {
+      await sleep(state.blockedUntil - now);
+      continue;
+    }
+
+    const elapsed = (now - state.lastRefill) / 1000;
+    state.tokens = Math.min(
+      state.policy.burst,
+      state.tokens + elapsed * state.policy.ratePerSecond,
+    );
+    state.lastRefill = now;
+
+    if (state.tokens >= 1) {
+      state.tokens -= 1;
+      return;
+    }
+    await sleep(((1 - state.tokens) / state.policy.ratePerSecond) * 1000);
+  }
+}
+
+function backoffDelay(attempt: number): number {
+  // Exponential backoff with jitter: ~0.5s, ~1s, ~2s, ...
+  return BASE_BACKOFF_MS * 2 ** attempt * (0.75 + Math.random() * 0.5);
+}
+
+// Milliseconds until the host's quota resets, from Retry-After or
+// X-RateLimit-Reset / RateLimit-Reset headers
+export function getResetDelay(headers: Headers): number | null {
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const reset =
+    headers.get("x-ratelimit-reset") ?? headers.get("ratelimit-reset");
+  if (reset) {
+    const value = Number(reset);
+    if (!isNaN(value)) {
+      // GitHub and GitLab send an epoch timestamp, the IETF draft a delta
+      return value > 1e9
+        ? Math.max(0, value * 1000 - Date.now())
+        : value * 1000;
+    }
+  }
+
+  return null;
+}
+
+function isRateLimited(response: Response): boolean {
+  if (response.status === 429) return true;
+  // GitHub signals primary and secondary limits with 403
+  return (
+    response.status === 403 &&
+    (response.headers.get("x-ratelimit-remaining") === "0" ||
+      response.headers.has("retry-after"))
+  );
+}
+
+function rateLimitedResponse(waitMs: number): Response {
+  return new Response(null, {
+    status: 429,
+    statusText: "Too Many Requests",
+    headers: { "Retry-After": String(Math.ceil(waitMs / 1000)) },
+  });
+}
+
+async function fetchOnce(
   url: string,
-  options: RequestInit = {},
-  timeout: number = DEFAULT_TIMEOUT
+  options: RequestInit,
+  timeout: number,
 ): Promise<Response> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeout);
 
   try {
-    const response = await fetch(url, {
+    return await fetch(url, { ...options, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Fetch through the per-host scheduler: waits for a concurrency slot and a
+// rate token, honors rate limit headers and retries with backoff
+export async function scheduledFetch(
+  url: string,
+  options: RequestInit = {},
+  timeout: number = DEFAULT_TIMEOUT,
+): Promise<Response> {
+  const { host } = new URL(url);
+  // Authenticated and anonymous requests have separate quotas
+  const authenticated = new Headers(options.headers).has("authorization");
+  const state = getHostState(authenticated ? `${host}#auth` : host, host);
+
+  for (let attempt = 0; ; attempt++) {
+    const blockedFor = state.blockedUntil - Date.now();
+    if (blockedFor > MAX_RATE_LIMIT_WAIT_MS) {
+      // Don't hammer a host whose quota is exhausted
+      return rateLimitedResponse(blockedFor);
+    }
+
+    await acquireSlot(state);
+    let response: Response | null = null;
+    let failure: unknown = null;
+    try {
+      await takeToken(state);
+      response = await fetchOnce(url, options, timeout);
+    } catch (error) {
+      failure = error;
+    } finally {
+      releaseSlot(state);
+    }
+
+    if (!response) {
+      if (attempt >= MAX_RETRIES) throw failure;
+      await sleep(backoffDelay(attempt));
+      continue;
+    }
+
+    if (isRateLimited(response)) {
+      const delay = getResetDelay(response.headers) ?? backoffDelay(attempt);
+      state.blockedUntil = Math.max(state.blockedUntil, Date.now() + delay);
+      if (attempt >= MAX_RETRIES || delay > MAX_RATE_LIMIT_WAIT_MS) {
+        return response;
+      }
+      await response.body?.cancel();
+      continue; // takeToken waits out blockedUntil
+    }
+
+    if (response.status >= 500 && attempt < MAX_RETRIES) {
+      await response.body?.cancel();
+      await sleep(backoffDelay(attempt));
+      continue;
+    }
+
+    // Quota used up - pause the host until it resets
+    if (response.headers.get("x-ratelimit-remaining") === "0") {
+      const reset = getResetDelay(response.headers);
+      if (reset !== null) {
+        state.blockedUntil = Math.max(state.blockedUntil, Date.now() + reset);
+      }
+    }
+
+    return response;
+  }
+}
+
+export async function fetchWithTimeout(
+  url: string,
+  options: RequestInit = {},
+  timeout: number = DEFAULT_TIMEOUT
+): Promise<Response> {
+  return scheduledFetch(
+    url,
+    {
       ...options,
-      signal: controller.signal,
       headers: {
         "User-Agent": USER_AGENT,
         ...options.headers,
       },
-    });
-    return response;
-  } finally {
-    clearTimeout(timeoutId);
+    },
+    timeout
+  );
+}
+
+// Map an HTTP response from a "GET resource, 404 means free" endpoint to a status
+export function statusFromResponse(response: Response): AvailabilityStatus {
+  if (response.status === 404) return "available";
+  if (response.ok) return "taken";
+  if (response.status === 429) return "rate-limited";
+  return "unknown";
+}
+
+// Build a result for a "GET resource, 404 means free" lookup
+export function createResponseResult(
+  platform: string,
+  name: string,
+  response: Response,
+  takenUrl: string
+): CheckResult {
+  const status = statusFromResponse(response);
+  const result: CheckResult = {
+    name,
+    platform,
+    status,
+    available: status === "available",
+  };
+  if (status === "taken") {
+    result.url = takenUrl;
+  } else if (status === "rate-limited") {
+    result.error = "Rate limited";
+  } else if (status === "unknown") {
+    result.error = `Unexpected response: HTTP ${response.status}`;
   }
+  return result;
 }
 
 export function createErrorResult(
@@ -31,7 +294,52 @@ export function createErrorResult(
   return {
     name,
     platform,
+    status: "unknown",
+    available: false,
+    error,
+  };
+}
+
+export function createInvalidResult(
+  platform: string,
+  name: string,
+  reason: string
+): CheckResult {
+  return {
+    name,
+    platform,
+    status: "invalid",
+    available: false,
+    error: reason,
+  };
+}
+
+export function createRateLimitedResult(
+  platform: string,
+  name: string,
+  error: string = "Rate limited"
+): CheckResult {
+  return {
+    name,
+    platform,
+    status: "rate-limited",
+    available: false,
+    error,
+  };
+}
+
+export function createManualResult(
+  platform: string,
+  name: string,
+  url: string,
+  error: string
+): CheckResult {
+  return {
+    name,
+    platform,
+    status: "manual",
     available: false,
+    url,
     error,
   };
 }
@@ -0,0 +1,33 @@
+import type { Checker, CheckResult } from "../types";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createResponseResult,
+} from "./base";
+import { normalizePodName } from "./normalize";
+
+export const cocoapodsChecker: Checker = {
+  name: "cocoapods",
+  category: "package",
+  normalize: normalizePodName,
+  async check(name: string): Promise<CheckResult> {
+    try {
+      // Trunk is the registry behind `pod trunk push`
+      const response = await fetchWithTimeout(
+        `https://trunk.cocoapods.org/api/v1/pods/${encodeURIComponent(name)}`,
+      );
+      return createResponseResult(
+        "cocoapods",
+        name,
+        response,
+        `https://cocoapods.org/pods/${name}`,
+      );
+    } catch (error) {
+      return createErrorResult(
+        "cocoapods",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
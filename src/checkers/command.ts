@@ -0,0 +1,301 @@
+import commandsIndex from "../../config/commands.txt";
+import type { Checker, CheckResult, CommandCollision } from "../types";
+import { createErrorResult } from "./base";
+import { normalizeCommandName } from "./normalize";
+
+// Debian Contents-style index: "<path> <section>/<package>[,...]" per line,
+// bundled from config/commands.txt
+
+// Only paths in these directories are commands
+const BIN_PATH = /^(?:usr\/)?(?:local\/)?(?:s?bin|games)\/([^/]+)$/;
+
+// Builtins and reserved words in bash (and mostly POSIX sh)
+const SHELL_BUILTINS = new Set([
+  "alias",
+  "bg",
+  "bind",
+  "break",
+  "builtin",
+  "caller",
+  "case",
+  "cd",
+  "command",
+  "compgen",
+  "complete",
+  "compopt",
+  "continue",
+  "coproc",
+  "declare",
+  "dirs",
+  "disown",
+  "do",
+  "done",
+  "echo",
+  "elif",
+  "else",
+  "enable",
+  "esac",
+  "eval",
+  "exec",
+  "exit",
+  "export",
+  "false",
+  "fc",
+  "fg",
+  "fi",
+  "for",
+  "function",
+  "getopts",
+  "hash",
+  "help",
+  "history",
+  "if",
+  "in",
+  "jobs",
+  "kill",
+  "let",
+  "local",
+  "logout",
+  "mapfile",
+  "popd",
+  "printf",
+  "pushd",
+  "pwd",
+  "read",
+  "readarray",
+  "readonly",
+  "return",
+  "select",
+  "set",
+  "shift",
+  "shopt",
+  "source",
+  "suspend",
+  "test",
+  "then",
+  "time",
+  "times",
+  "trap",
+  "true",
+  "type",
+  "typeset",
+  "ulimit",
+  "umask",
+  "unalias",
+  "unset",
+  "until",
+  "wait",
+  "while",
+]);
+
+// GNU coreutils, present on practically every Linux system
+const COREUTILS = new Set([
+  "arch",
+  "b2sum",
+  "base32",
+  "base64",
+  "basename",
+  "basenc",
+  "cat",
+  "chcon",
+  "chgrp",
+  "chmod",
+  "chown",
+  "chroot",
+  "cksum",
+  "comm",
+  "cp",
+  "csplit",
+  "cut",
+  "date",
+  "dd",
+  "df",
+  "dir",
+  "dircolors",
+  "dirname",
+  "du",
+  "echo",
+  "env",
+  "expand",
+  "expr",
+  "factor",
+  "false",
+  "fmt",
+  "fold",
+  "groups",
+  "head",
+  "hostid",
+  "id",
+  "install",
+  "join",
+  "link",
+  "ln",
+  "logname",
+  "ls",
+  "md5sum",
+  "mkdir",
+  "mkfifo",
+  "mknod",
+  "mktemp",
+  "mv",
+  "nice",
+  "nl",
+  "nohup",
+  "nproc",
+  "numfmt",
+  "od",
+  "paste",
+  "pathchk",
+  "pinky",
+  "pr",
+  "printenv",
+  "printf",
+  "ptx",
+  "pwd",
+  "readlink",
+  "realpath",
+  "rm",
+  "rmdir",
+  "runcon",
+  "seq",
+  "sha1sum",
+  "sha224sum",
+  "sha256sum",
+  "sha384sum",
+  "sha512sum",
+  "shred",
+  "shuf",
+  "sleep",
+  "sort",
+  "split",
+  "stat",
+  "stdbuf",
+  "stty",
+  "sum",
+  "sync",
+  "tac",
+  "tail",
+  "tee",
+  "test",
+  "timeout",
+  "touch",
+  "tr",
+  "true",
+  "truncate",
+  "tsort",
+  "tty",
+  "uname",
+  "unexpand",
+  "uniq",
+  "unlink",
+  "users",
+  "vdir",
+  "wc",
+  "who",
+  "whoami",
+  "yes",
+]);
+
+let commandIndex: Promise<Map<string, string[]>> | null = null;
+
+// Map command name -> packages shipping it, from the bundled index
+async function loadCommandIndex(): Promise<Map<string, string[]>> {
+  const index = new Map<string, string[]>();
+
+  for (const line of commandsIndex.split("\n")) {
+    if (!line || line.startsWith("#")) continue;
+
+    // The package list is the last column; paths may contain spaces
+    const split = line.search(/\s+\S+$/);
+    if (split === -1) continue;
+    const match = line.slice(0, split).trim().match(BIN_PATH);
+    if (!match) continue;
+
+    const packages = line
+      .slice(split)
+      .trim()
+      .split(",")
+      .map((p) => p.slice(p.lastIndexOf("/") + 1));
+    const command = match[1]!;
+    index.set(command, [...(index.get(command) ?? []), ...packages]);
+  }
+
+  return index;
+}
+
+// Man sections for commands: user commands, games and admin commands.
+// Library calls (3), file formats (5) and the like (7) aren't collisions.
+const COMMAND_MAN_SECTIONS = ["1", "6", "8"];
+
+// Path to the local man page of a command, if any
+function findManPage(name: string): string | null {
+  try {
+    const sections = COMMAND_MAN_SECTIONS.join(":");
+    const proc = Bun.spawnSync(["man", "-w", "-S", sections, name], {
+      stdout: "pipe",
+      stderr: "ignore",
+    });
+    if (proc.exitCode !== 0) return null;
+    return proc.stdout.toString().trim().split("\n")[0] || null;
+  } catch {
+    // No man installed
+    return null;
+  }
+}
+
+export const commandChecker: Checker = {
+  name: "command",
+  category: "command",
+  normalize: normalizeCommandName,
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const collisions: CommandCollision[] = [];
+
+      const localPath = Bun.which(name);
+      if (localPath) {
+        collisions.push({ source: "path", detail: localPath });
+      }
+      if (SHELL_BUILTINS.has(name)) {
+        collisions.push({ source: "shell", detail: "shell builtin" });
+      }
+      if (COREUTILS.has(name)) {
+        collisions.push({
+          source: "coreutils",
+          detail: "GNU coreutils",
+          url: `https://www.gnu.org/software/coreutils/${name}`,
+        });
+      }
+
+      commandIndex ??= loadCommandIndex();
+      for (const pkg of (await commandIndex).get(name) ?? []) {
+        collisions.push({
+          source: "package",
+          detail: `Debian package ${pkg}`,
+          url: `https://packages.debian.org/sid/${pkg}`,
+        });
+      }
+
+      // A command man page on its own usually means an installed command as
+      // well, but also catches ones outside $PATH (e.g. sbin for normal users)
+      const manPage = findManPage(name);
+      if (manPage) {
+        collisions.push({ source: "man", detail: manPage });
+      }
+
+      return {
+        name,
+        platform: "command",
+        status: collisions.length > 0 ? "taken" : "available",
+        available: collisions.length === 0,
+        url: collisions.find((c) => c.url)?.url,
+        collisions,
+      };
+    } catch (error) {
+      return createErrorResult(
+        "command",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
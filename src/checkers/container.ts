@@ -0,0 +1,226 @@
+import type { Checker, CheckResult } from "../types";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createRateLimitedResult,
+} from "./base";
+import {
+  normalizeDockerName,
+  normalizeDockerNamespace,
+  normalizeGithubOwner,
+} from "./normalize";
+
+interface Lookup {
+  response: Response;
+  // Where to send the user when this lookup finds something
+  url: string;
+}
+
+// Taken if any lookup found something, available only if every lookup
+// returned a clean 404
+function combineLookups(
+  platform: string,
+  name: string,
+  lookups: Lookup[],
+): CheckResult {
+  const found = lookups.find((l) => l.response.ok);
+  if (found) {
+    return {
+      name,
+      platform,
+      status: "taken",
+      available: false,
+      url: found.url,
+    };
+  }
+
+  const failed = lookups.find((l) => l.response.status !== 404);
+  if (failed) {
+    if (failed.response.status === 429) {
+      return createRateLimitedResult(platform, name);
+    }
+    return createErrorResult(
+      platform,
+      name,
+      `Unexpected response: HTTP ${failed.response.status}`,
+    );
+  }
+
+  return { name, platform, status: "available", available: true };
+}
+
+function errorResult(platform: string, name: string, error: unknown) {
+  return createErrorResult(
+    platform,
+    name,
+    error instanceof Error ? error.message : "Unknown error",
+  );
+}
+
+// Docker Hub repositories: an official image or <name>/<name>
+export const dockerhubChecker: Checker = {
+  name: "dockerhub",
+  category: "container",
+  normalize: normalizeDockerName,
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const [official, own] = await Promise.all([
+        fetchWithTimeout(
+          `https://hub.docker.com/v2/repositories/library/${encodeURIComponent(name)}/`,
+        ),
+        fetchWithTimeout(
+          `https://hub.docker.com/v2/repositories/${encodeURIComponent(name)}/${encodeURIComponent(name)}/`,
+        ),
+      ]);
+      return combineLookups("dockerhub", name, [
+        { response: official, url: `https://hub.docker.com/_/${name}` },
+        { response: own, url: `https://hub.docker.com/r/${name}/${name}` },
+      ]);
+    } catch (error) {
+      return errorResult("dockerhub", name, error);
+    }
+  },
+};
+
+// Docker Hub namespaces. Users and organizations share one namespace but
+// are looked up separately; taken if either exists.
+export const dockerhubNamespaceChecker: Checker = {
+  name: "dockerhub-namespace",
+  category: "container",
+  normalize: normalizeDockerNamespace,
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const encoded = encodeURIComponent(name);
+      const [user, org] = await Promise.all([
+        fetchWithTimeout(`https://hub.docker.com/v2/users/${encoded}/`),
+        fetchWithTimeout(`https://hub.docker.com/v2/orgs/${encoded}/`),
+      ]);
+      return combineLookups("dockerhub-namespace", name, [
+        { response: org, url: `https://hub.docker.com/u/${name}` },
+        { response: user, url: `https://hub.docker.com/u/${name}` },
+      ]);
+    } catch (error) {
+      return errorResult("dockerhub-namespace", name, error);
+    }
+  },
+};
+
+// Quay.io: user or organization namespace, plus a <name>/<name> repository
+export const quayChecker: Checker = {
+  name: "quay",
+  category: "container",
+  normalize: normalizeDockerName,
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const encoded = encodeURIComponent(name);
+      const [user, org, repo] = await Promise.all([
+        fetchWithTimeout(`https://quay.io/api/v1/users/${encoded}`),
+        fetchWithTimeout(`https://quay.io/api/v1/organization/${encoded}`),
+        fetchWithTimeout(
+          `https://quay.io/api/v1/repository/${encoded}/${encoded}`,
+        ),
+      ]);
+      return combineLookups("quay", name, [
+        { response: repo, url: `https://quay.io/repository/${name}/${name}` },
+        { response: org, url: `https://quay.io/organization/${name}` },
+        { response: user, url: `https://quay.io/user/${name}` },
+      ]);
+    } catch (error) {
+      return errorResult("quay", name, error);
+    }
+  },
+};
+
+// GHCR: the <name>/<name> image, the usual layout for an org's main image.
+// The registry wants a bearer token even for anonymous pulls.
+export const ghcrChecker: Checker = {
+  name: "ghcr",
+  category: "container",
+  normalize: normalizeGithubOwner,
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const image = `${name}/${name}`;
+      const tokenRes = await fetchWithTimeout(
+        `https://ghcr.io/token?scope=repository:${image}:pull`,
+      );
+      if (!tokenRes.ok) {
+        return tokenRes.status === 429
+          ? createRateLimitedResult("ghcr", name)
+          : createErrorResult(
+              "ghcr",
+              name,
+              `GHCR token request returned ${tokenRes.status}`,
+            );
+      }
+      const { token } = (await tokenRes.json()) as { token: string };
+
+      const response = await fetchWithTimeout(
+        `https://ghcr.io/v2/${image}/tags/list`,
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      return combineLookups("ghcr", name, [
+        {
+          response,
+          url: `https://github.com/${name}/${name}/pkgs/container/${name}`,
+        },
+      ]);
+    } catch (error) {
+      return errorResult("ghcr", name, error);
+    }
+  },
+};
+
+// Artifact Hub package kinds (see artifacthub.io/docs/api)
+const ARTIFACT_HUB_KINDS: Record<number, string> = {
+  0: "helm",
+  3: "olm",
+};
+
+interface ArtifactHubSearch {
+  packages: Array<{
+    name: string;
+    repository: { name: string; kind: number };
+  }>;
+}
+
+// Artifact Hub: Helm charts and operators with exactly this name
+export const artifacthubChecker: Checker = {
+  name: "artifacthub",
+  category: "container",
+  normalize: normalizeDockerName,
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const kinds = Object.keys(ARTIFACT_HUB_KINDS)
+        .map((k) => `&kind=${k}`)
+        .join("");
+      const response = await fetchWithTimeout(
+        `https://artifacthub.io/api/v1/packages/search?ts_query_web=${encodeURIComponent(name)}&limit=60${kinds}`,
+      );
+      if (response.status === 429) {
+        return createRateLimitedResult("artifacthub", name);
+      }
+      if (!response.ok) {
+        return createErrorResult(
+          "artifacthub",
+          name,
+          `Artifact Hub search returned ${response.status}`,
+        );
+      }
+
+      const data = (await response.json()) as ArtifactHubSearch;
+      const match = data.packages.find((p) => p.name.toLowerCase() === name);
+
+      return {
+        name,
+        platform: "artifacthub",
+        status: match ? "taken" : "available",
+        available: !match,
+        url: match
+          ? `https://artifacthub.io/packages/${ARTIFACT_HUB_KINDS[match.repository.kind] ?? "search"}/${match.repository.name}/${match.name}`
+          : undefined,
+      };
+    } catch (error) {
+      return errorResult("artifacthub", name, error);
+    }
+  },
+};
@@ -1,21 +1,26 @@
 import type { Checker, CheckResult } from "../types";
-import { fetchWithTimeout, createErrorResult } from "./base";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createResponseResult,
+} from "./base";
+import { normalizeCrateName } from "./normalize";
 
 export const cratesChecker: Checker = {
   name: "crates.io",
   category: "package",
+  normalize: normalizeCrateName,
   async check(name: string): Promise<CheckResult> {
     try {
       const response = await fetchWithTimeout(
         `https://crates.io/api/v1/crates/${encodeURIComponent(name)}`
       );
-      const available = response.status === 404;
-      return {
+      return createResponseResult(
+        "crates.io",
         name,
-        platform: "crates.io",
-        available,
-        url: available ? undefined : `https://crates.io/crates/${name}`,
-      };
+        response,
+        `https://crates.io/crates/${name}`
+      );
     } catch (error) {
       return createErrorResult(
         "crates.io",
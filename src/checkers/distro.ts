@@ -0,0 +1,228 @@
+import type { Checker, CheckResult } from "../types";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createRateLimitedResult,
+} from "./base";
+
+// Result for a lookup that either found a package (with a link) or didn't
+function distroResult(
+  platform: string,
+  name: string,
+  url: string | undefined,
+): CheckResult {
+  return {
+    name,
+    platform,
+    status: url ? "taken" : "available",
+    available: !url,
+    url,
+  };
+}
+
+function failedResult(
+  platform: string,
+  name: string,
+  response: Response,
+): CheckResult {
+  if (response.status === 429) {
+    return createRateLimitedResult(platform, name);
+  }
+  return createErrorResult(
+    platform,
+    name,
+    `Unexpected response: HTTP ${response.status}`,
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Debian: madison lists source and binary packages across all suites
+export const debianChecker: Checker = {
+  name: "debian",
+  category: "package",
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const response = await fetchWithTimeout(
+        `https://api.ftp-master.debian.org/madison?package=${encodeURIComponent(name)}&f=json`,
+      );
+      if (!response.ok) return failedResult("debian", name, response);
+
+      // [{ "<package>": { "<suite>": { "<version>": {...} } } }], or [{}]
+      const data = (await response.json()) as Array<Record<string, unknown>>;
+      const found = data.some((entry) => name in entry);
+
+      return distroResult(
+        "debian",
+        name,
+        found ? `https://tracker.debian.org/pkg/${name}` : undefined,
+      );
+    } catch (error) {
+      return createErrorResult(
+        "debian",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
+
+// Ubuntu: binary packages published in the primary archive (Launchpad)
+export const ubuntuChecker: Checker = {
+  name: "ubuntu",
+  category: "package",
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const response = await fetchWithTimeout(
+        `https://api.launchpad.net/1.0/ubuntu/+archive/primary?ws.op=getPublishedBinaries&binary_name=${encodeURIComponent(name)}&exact_match=true&ws.size=1`,
+      );
+      if (!response.ok) return failedResult("ubuntu", name, response);
+
+      const data = (await response.json()) as {
+        entries: Array<{ source_package_name: string }>;
+      };
+      const source = data.entries[0]?.source_package_name;
+
+      return distroResult(
+        "ubuntu",
+        name,
+        source ? `https://launchpad.net/ubuntu/+source/${source}` : undefined,
+      );
+    } catch (error) {
+      return createErrorResult(
+        "ubuntu",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
+
+// Fedora: binary packages in rawhide via mdapi (404 when missing)
+export const fedoraChecker: Checker = {
+  name: "fedora",
+  category: "package",
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const response = await fetchWithTimeout(
+        `https://mdapi.fedoraproject.org/rawhide/pkg/${encodeURIComponent(name)}`,
+      );
+      if (response.status === 404) {
+        return distroResult("fedora", name, undefined);
+      }
+      if (!response.ok) return failedResult("fedora", name, response);
+
+      const data = (await response.json()) as { basename?: string };
+      return distroResult(
+        "fedora",
+        name,
+        `https://packages.fedoraproject.org/pkgs/${data.basename ?? name}/${name}/`,
+      );
+    } catch (error) {
+      return createErrorResult(
+        "fedora",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
+
+// Arch Linux official repositories
+export const archChecker: Checker = {
+  name: "arch",
+  category: "package",
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const response = await fetchWithTimeout(
+        `https://archlinux.org/packages/search/json/?name=${encodeURIComponent(name)}`,
+      );
+      if (!response.ok) return failedResult("arch", name, response);
+
+      const data = (await response.json()) as {
+        results: Array<{ pkgname: string; repo: string; arch: string }>;
+      };
+      const pkg = data.results[0];
+
+      return distroResult(
+        "arch",
+        name,
+        pkg
+          ? `https://archlinux.org/packages/${pkg.repo}/${pkg.arch}/${pkg.pkgname}/`
+          : undefined,
+      );
+    } catch (error) {
+      return createErrorResult(
+        "arch",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
+
+// Arch User Repository
+export const aurChecker: Checker = {
+  name: "aur",
+  category: "package",
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const response = await fetchWithTimeout(
+        `https://aur.archlinux.org/rpc/v5/info?arg[]=${encodeURIComponent(name)}`,
+      );
+      if (!response.ok) return failedResult("aur", name, response);
+
+      const data = (await response.json()) as {
+        results: Array<{ Name: string }>;
+      };
+      const pkg = data.results[0];
+
+      return distroResult(
+        "aur",
+        name,
+        pkg ? `https://aur.archlinux.org/packages/${pkg.Name}` : undefined,
+      );
+    } catch (error) {
+      return createErrorResult(
+        "aur",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
+
+// Alpine: no JSON API, so look for an exact package link in the search page
+export const alpineChecker: Checker = {
+  name: "alpine",
+  category: "package",
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const response = await fetchWithTimeout(
+        `https://pkgs.alpinelinux.org/packages?name=${encodeURIComponent(name)}&branch=edge`,
+      );
+      if (!response.ok) return failedResult("alpine", name, response);
+
+      const html = await response.text();
+      const match = html.match(
+        new RegExp(
+          `href="(/package/edge/[^/"]+/[^/"]+/${escapeRegExp(name)})"`,
+        ),
+      );
+
+      return distroResult(
+        "alpine",
+        name,
+        match ? `https://pkgs.alpinelinux.org${match[1]}` : undefined,
+      );
+    } catch (error) {
+      return createErrorResult(
+        "alpine",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
@@ -1,34 +1,123 @@
 import type { Checker, CheckResult } from "../types";
-import { fetchWithTimeout, createErrorResult } from "./base";
-
-export const devDomainChecker: Checker = {
-  name: "domain-dev",
-  category: "domain",
-  async check(name: string): Promise<CheckResult> {
-    const domain = `${name}.dev`;
-    try {
-      // Use RDAP (Registration Data Access Protocol) for .dev domains
-      // Google runs the .dev TLD registry via pubapi.registry.google
-      const response = await fetchWithTimeout(
-        `https://pubapi.registry.google/rdap/domain/${encodeURIComponent(domain)}`,
-      );
-
-      // 404 means the domain is available
-      // 200 means it's registered
-      const available = response.status === 404;
-
-      return {
-        name,
-        platform: "domain-dev",
-        available,
-        url: available ? undefined : `https://${domain}`,
-      };
-    } catch (error) {
-      return createErrorResult(
-        "domain-dev",
-        name,
-        error instanceof Error ? error.message : "Unknown error",
-      );
-    }
-  },
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createManualResult,
+  createResponseResult,
+} from "./base";
+import { normalizeDomainLabel } from "./normalize";
+
+// IANA's registry of RDAP servers per TLD
+const RDAP_BOOTSTRAP_URL = "https://data.iana.org/rdap/dns.json";
+
+// Used when the bootstrap file can't be fetched
+const FALLBACK_RDAP_SERVERS: Record<string, string> = {
+  com: "https://rdap.verisign.com/com/v1/",
+  net: "https://rdap.verisign.com/net/v1/",
+  org: "https://rdap.publicinterestregistry.org/rdap/",
+  dev: "https://pubapi.registry.google/rdap/",
+  app: "https://pubapi.registry.google/rdap/",
+  page: "https://pubapi.registry.google/rdap/",
 };
+
+// TLDs checked when config/checkers.yaml doesn't list its own
+export const DEFAULT_TLDS = ["dev", "com", "io", "sh", "app", "org", "rs"];
+
+interface RdapBootstrap {
+  services: Array<[string[], string[]]>;
+}
+
+interface RdapServers {
+  servers: Record<string, string>;
+  // False when only the fallback table is known (bootstrap fetch failed)
+  complete: boolean;
+}
+
+let rdapServers: Promise<RdapServers> | null = null;
+
+async function loadRdapServers(): Promise<RdapServers> {
+  const fallback = { servers: FALLBACK_RDAP_SERVERS, complete: false };
+  try {
+    const response = await fetchWithTimeout(RDAP_BOOTSTRAP_URL);
+    if (!response.ok) return fallback;
+
+    const bootstrap = (await response.json()) as RdapBootstrap;
+    const servers: Record<string, string> = { ...FALLBACK_RDAP_SERVERS };
+    for (const [tlds, urls] of bootstrap.services) {
+      // Prefer HTTPS endpoints
+      const url = urls.find((u) => u.startsWith("https://")) ?? urls[0];
+      if (!url) continue;
+      for (const tld of tlds) {
+        servers[tld.toLowerCase()] = url.endsWith("/") ? url : `${url}/`;
+      }
+    }
+    return { servers, complete: true };
+  } catch {
+    return fallback;
+  }
+}
+
+// Resolve the RDAP server for a TLD (bootstrap is fetched once per run).
+// Null when IANA lists no server for it; throws when the bootstrap couldn't
+// be fetched and the TLD isn't in the fallback table.
+export async function getRdapServer(tld: string): Promise<string | null> {
+  rdapServers ??= loadRdapServers();
+  const pending = rdapServers;
+  const { servers, complete } = await pending;
+  // Don't keep a failed bootstrap, the next lookup tries again
+  if (!complete && rdapServers === pending) rdapServers = null;
+
+  const server = servers[tld.toLowerCase()];
+  if (server) return server;
+  if (!complete) {
+    throw new Error(
+      `Couldn't fetch the RDAP bootstrap to find the .${tld} server`,
+    );
+  }
+  return null;
+}
+
+export function createDomainChecker(tld: string): Checker {
+  const platform = `domain-${tld}`;
+
+  return {
+    name: platform,
+    category: "domain",
+    normalize: normalizeDomainLabel,
+    async check(name: string): Promise<CheckResult> {
+      const domain = `${name}.${tld}`;
+      try {
+        const server = await getRdapServer(tld);
+        if (!server) {
+          // Some ccTLDs don't run RDAP, fall back to a WHOIS lookup by hand
+          return createManualResult(
+            platform,
+            name,
+            `https://who.is/whois/${domain}`,
+            `No RDAP server for .${tld} - check WHOIS manually`,
+          );
+        }
+
+        // RDAP (Registration Data Access Protocol):
+        // 404 means the domain is available, 200 means it's registered
+        const response = await fetchWithTimeout(
+          `${server}domain/${encodeURIComponent(domain)}`,
+        );
+        return createResponseResult(
+          platform,
+          name,
+          response,
+          `https://${domain}`,
+        );
+      } catch (error) {
+        return createErrorResult(
+          platform,
+          name,
+          error instanceof Error ? error.message : "Unknown error",
+        );
+      }
+    },
+  };
+}
+
+export const devDomainChecker = createDomainChecker("dev");
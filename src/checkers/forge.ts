@@ -0,0 +1,402 @@
+import type { Checker, CheckResult } from "../types";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createRateLimitedResult,
+} from "./base";
+import { expandEnv } from "./http";
+import {
+  checkNamespaceVariants,
+  namespaceStatus,
+  type NamespaceLookup,
+} from "./namespace";
+import {
+  normalizeBitbucketWorkspace,
+  normalizeForgeNamespace,
+  normalizeSourcehutUser,
+} from "./normalize";
+
+// A Gitea/Forgejo or GitLab instance, built in (Codeberg) or configured
+// under `forges:` in config/checkers.yaml
+export interface ForgeDefinition {
+  name: string;
+  type: "gitea" | "gitlab";
+  url: string;
+  // API token, ${VAR} expands environment variables
+  token?: string;
+}
+
+// Search result pages to scan on GitLab instances
+const MAX_GITLAB_PAGES = 10;
+
+function apiHeaders(forge: ForgeDefinition): Record<string, string> {
+  const token = forge.token ? expandEnv(forge.token) : "";
+  if (!token) return {};
+  return forge.type === "gitlab"
+    ? { "PRIVATE-TOKEN": token }
+    : { Authorization: `token ${token}` };
+}
+
+function failedResult(
+  platform: string,
+  name: string,
+  response: Response,
+): CheckResult {
+  if (response.status === 429) {
+    return createRateLimitedResult(platform, name);
+  }
+  return createErrorResult(
+    platform,
+    name,
+    `Unexpected response: HTTP ${response.status}`,
+  );
+}
+
+// Gitea/Forgejo: repositories named exactly <name>
+function createGiteaRepoChecker(forge: ForgeDefinition): Checker {
+  const baseUrl = forge.url.replace(/\/+$/, "");
+
+  return {
+    name: forge.name,
+    category: "repository",
+    async check(name: string): Promise<CheckResult> {
+      try {
+        const response = await fetchWithTimeout(
+          `${baseUrl}/api/v1/repos/search?q=${encodeURIComponent(name)}&limit=50`,
+          { headers: apiHeaders(forge) },
+        );
+        if (!response.ok) return failedResult(forge.name, name, response);
+
+        const data = (await response.json()) as {
+          data: Array<{ name: string; html_url: string }>;
+        };
+        const match = data.data.find(
+          (repo) => repo.name.toLowerCase() === name.toLowerCase(),
+        );
+
+        return {
+          name,
+          platform: forge.name,
+          status: match ? "taken" : "available",
+          available: !match,
+          url: match?.html_url,
+        };
+      } catch (error) {
+        return createErrorResult(
+          forge.name,
+          name,
+          error instanceof Error ? error.message : "Unknown error",
+        );
+      }
+    },
+  };
+}
+
+// Gitea/Forgejo: users and orgs share one namespace
+function createGiteaOrgChecker(forge: ForgeDefinition): Checker {
+  const baseUrl = forge.url.replace(/\/+$/, "");
+  const platform = `${forge.name}-org`;
+
+  async function lookup(variant: string): Promise<NamespaceLookup> {
+    try {
+      const encoded = encodeURIComponent(variant);
+      const orgRes = await fetchWithTimeout(
+        `${baseUrl}/api/v1/orgs/${encoded}`,
+        { headers: apiHeaders(forge) },
+      );
+      if (orgRes.status !== 404) {
+        return namespaceStatus(orgRes, `${baseUrl}/${variant}`);
+      }
+      const userRes = await fetchWithTimeout(
+        `${baseUrl}/api/v1/users/${encoded}`,
+        { headers: apiHeaders(forge) },
+      );
+      return namespaceStatus(userRes, `${baseUrl}/${variant}`);
+    } catch {
+      return { status: "unknown" };
+    }
+  }
+
+  return {
+    name: platform,
+    category: "repository",
+    cacheTtl: 24 * 60 * 60 * 1000,
+    normalize: normalizeForgeNamespace,
+    async check(name: string): Promise<CheckResult> {
+      try {
+        return await checkNamespaceVariants(
+          platform,
+          name,
+          `${forge.name} API`,
+          lookup,
+        );
+      } catch (error) {
+        return createErrorResult(
+          platform,
+          name,
+          error instanceof Error ? error.message : "Unknown error",
+        );
+      }
+    },
+  };
+}
+
+// GitLab: projects whose path is exactly <name>. <name>/<name> is looked
+// up directly, other namespaces through a search ranked by similarity.
+function createGitlabRepoChecker(forge: ForgeDefinition): Checker {
+  const baseUrl = forge.url.replace(/\/+$/, "");
+
+  return {
+    name: forge.name,
+    category: "repository",
+    async check(name: string): Promise<CheckResult> {
+      const lower = name.toLowerCase();
+      try {
+        const direct = await fetchWithTimeout(
+          `${baseUrl}/api/v4/projects/${encodeURIComponent(`${name}/${name}`)}`,
+          { headers: apiHeaders(forge) },
+        );
+        if (direct.ok) {
+          const project = (await direct.json()) as { web_url: string };
+          return {
+            name,
+            platform: forge.name,
+            status: "taken",
+            available: false,
+            url: project.web_url,
+          };
+        }
+        if (direct.status !== 404) {
+          return failedResult(forge.name, name, direct);
+        }
+
+        for (let page = 1; page <= MAX_GITLAB_PAGES; page++) {
+          const response = await fetchWithTimeout(
+            `${baseUrl}/api/v4/projects?search=${encodeURIComponent(name)}&order_by=similarity&simple=true&per_page=100&page=${page}`,
+            { headers: apiHeaders(forge) },
+          );
+          if (!response.ok) return failedResult(forge.name, name, response);
+
+          const projects = (await response.json()) as Array<{
+            path: string;
+            web_url: string;
+          }>;
+          const match = projects.find((p) => p.path.toLowerCase() === lower);
+          if (match) {
+            return {
+              name,
+              platform: forge.name,
+              status: "taken",
+              available: false,
+              url: match.web_url,
+            };
+          }
+
+          // Paths containing the name rank first, so once a page has none
+          // the remaining pages are description/namespace hits
+          if (!projects.some((p) => p.path.toLowerCase().includes(lower))) {
+            break;
+          }
+          if (!response.headers.get("x-next-page")) break;
+        }
+
+        return {
+          name,
+          platform: forge.name,
+          status: "available",
+          available: true,
+        };
+      } catch (error) {
+        return createErrorResult(
+          forge.name,
+          name,
+          error instanceof Error ? error.message : "Unknown error",
+        );
+      }
+    },
+  };
+}
+
+// GitLab: a namespace is either a group or a user
+function createGitlabOrgChecker(forge: ForgeDefinition): Checker {
+  const baseUrl = forge.url.replace(/\/+$/, "");
+  const platform = `${forge.name}-org`;
+
+  async function lookup(variant: string): Promise<NamespaceLookup> {
+    try {
+      const encoded = encodeURIComponent(variant);
+      const groupRes = await fetchWithTimeout(
+        `${baseUrl}/api/v4/groups/${encoded}`,
+        { headers: apiHeaders(forge) },
+      );
+      if (groupRes.status !== 404) {
+        return namespaceStatus(groupRes, `${baseUrl}/${variant}`);
+      }
+
+      // The users endpoint answers 200 with an empty list for unknown users
+      const userRes = await fetchWithTimeout(
+        `${baseUrl}/api/v4/users?username=${encoded}`,
+        { headers: apiHeaders(forge) },
+      );
+      if (!userRes.ok) return namespaceStatus(userRes, "");
+      const users = (await userRes.json()) as Array<{ web_url: string }>;
+      return users[0]
+        ? { status: "taken", url: users[0].web_url }
+        : { status: "available" };
+    } catch {
+      return { status: "unknown" };
+    }
+  }
+
+  return {
+    name: platform,
+    category: "repository",
+    cacheTtl: 24 * 60 * 60 * 1000,
+    normalize: normalizeForgeNamespace,
+    async check(name: string): Promise<CheckResult> {
+      try {
+        return await checkNamespaceVariants(
+          platform,
+          name,
+          `${forge.name} API`,
+          lookup,
+        );
+      } catch (error) {
+        return createErrorResult(
+          platform,
+          name,
+          error instanceof Error ? error.message : "Unknown error",
+        );
+      }
+    },
+  };
+}
+
+// Repository and namespace checkers (<name>, <name>-org) for a forge
+export function createForgeCheckers(forge: ForgeDefinition): Checker[] {
+  return forge.type === "gitlab"
+    ? [createGitlabRepoChecker(forge), createGitlabOrgChecker(forge)]
+    : [createGiteaRepoChecker(forge), createGiteaOrgChecker(forge)];
+}
+
+export const [codebergChecker, codebergOrgChecker] = createForgeCheckers({
+  name: "codeberg",
+  type: "gitea",
+  url: "https://codeberg.org",
+}) as [Checker, Checker];
+
+export const [gitlabChecker, gitlabOrgChecker] = createForgeCheckers({
+  name: "gitlab",
+  type: "gitlab",
+  url: "https://gitlab.com",
+  token: "${GITLAB_TOKEN}",
+}) as [Checker, Checker];
+
+// SourceHut: ~user namespaces (no public API, so probe git.sr.ht profiles)
+export const sourcehutChecker: Checker = {
+  name: "sourcehut",
+  category: "repository",
+  cacheTtl: 24 * 60 * 60 * 1000,
+  normalize: normalizeSourcehutUser,
+  async check(name: string): Promise<CheckResult> {
+    try {
+      return await checkNamespaceVariants(
+        "sourcehut",
+        name,
+        "SourceHut",
+        async (variant) => {
+          try {
+            const url = `https://git.sr.ht/~${variant}`;
+            return namespaceStatus(await fetchWithTimeout(url), url);
+          } catch {
+            return { status: "unknown" };
+          }
+        },
+      );
+    } catch (error) {
+      return createErrorResult(
+        "sourcehut",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
+
+// Bitbucket: workspaces (listing a workspace's repositories 404s when the
+// workspace doesn't exist)
+export const bitbucketChecker: Checker = {
+  name: "bitbucket",
+  category: "repository",
+  cacheTtl: 24 * 60 * 60 * 1000,
+  normalize: normalizeBitbucketWorkspace,
+  async check(name: string): Promise<CheckResult> {
+    try {
+      return await checkNamespaceVariants(
+        "bitbucket",
+        name,
+        "Bitbucket API",
+        async (variant) => {
+          try {
+            const response = await fetchWithTimeout(
+              `https://api.bitbucket.org/2.0/repositories/${encodeURIComponent(variant)}?pagelen=1`,
+            );
+            return namespaceStatus(
+              response,
+              `https://bitbucket.org/${variant}/`,
+            );
+          } catch {
+            return { status: "unknown" };
+          }
+        },
+      );
+    } catch (error) {
+      return createErrorResult(
+        "bitbucket",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
+
+function validateForge(forge: ForgeDefinition): string | null {
+  if (!forge.name) return "missing 'name'";
+  if (!forge.url) return `${forge.name}: missing 'url'`;
+  if (forge.type !== "gitea" && forge.type !== "gitlab") {
+    return `${forge.name}: type must be gitea or gitlab`;
+  }
+  return null;
+}
+
+// Checkers for self-hosted forges from config/checkers.yaml and the
+// user/project config
+export function loadForgeCheckers(
+  forges: ForgeDefinition[],
+  reservedNames: string[] = [],
+): Checker[] {
+  const reserved = new Set(reservedNames.map((n) => n.toLowerCase()));
+  const checkers: Checker[] = [];
+
+  for (const forge of forges) {
+    const problem =
+      validateForge(forge) ??
+      ([forge.name, `${forge.name}-org`].some((n) =>
+        reserved.has(n.toLowerCase()),
+      )
+        ? `${forge.name}: name already used by another checker`
+        : null);
+
+    if (problem) {
+      console.warn(`Skipping forge: ${problem}`);
+      continue;
+    }
+
+    for (const checker of createForgeCheckers(forge)) {
+      reserved.add(checker.name.toLowerCase());
+      checkers.push(checker);
+    }
+  }
+
+  return checkers;
+}
@@ -1,6 +1,8 @@
 import { Octokit } from "octokit";
-import type { Checker, CheckResult, VariantResult } from "../types";
-import { createErrorResult } from "./base";
+import type { AvailabilityStatus, Checker, CheckResult } from "../types";
+import { createErrorResult, fetchWithTimeout, scheduledFetch } from "./base";
+import { normalizeGithubOwner, normalizeGithubRepo } from "./normalize";
+import { checkNamespaceVariants } from "./namespace";
 
 // Global flag to track if we've hit rate limit
 let usePublicApiOnly = false;
@@ -11,7 +13,17 @@ function getOctokit(): Octokit | null {
   if (!token) {
     return null;
   }
-  return new Octokit({ auth: token });
+  return new Octokit({
+    auth: token,
+    // Route requests through the shared scheduler, which already handles
+    // rate limits and retries
+    request: {
+      fetch: (url: string, options: RequestInit) =>
+        scheduledFetch(url, options),
+    },
+    throttle: { enabled: false },
+    retry: { enabled: false },
+  });
 }
 
 function shouldUsePublicApi(): boolean {
@@ -28,12 +40,44 @@ function markRateLimited(resetTime?: number) {
   rateLimitResetTime = resetTime || Date.now() + 3600000;
 }
 
+interface PublicLookupResult {
+  status: AvailabilityStatus;
+  url?: string;
+}
+
+function statusFromPublicResponse(response: Response): AvailabilityStatus {
+  if (response.status === 403 || response.status === 429) {
+    return "rate-limited";
+  }
+  return "unknown";
+}
+
+function toCheckResult(
+  platform: string,
+  name: string,
+  result: PublicLookupResult,
+): CheckResult {
+  const checkResult: CheckResult = {
+    name,
+    platform,
+    status: result.status,
+    available: result.status === "available",
+    url: result.url,
+  };
+  if (result.status === "rate-limited") {
+    checkResult.error = "GitHub API rate limited";
+  } else if (result.status === "unknown") {
+    checkResult.error = "GitHub API lookup failed";
+  }
+  return checkResult;
+}
+
 // Unauthenticated fallback using public API (60 requests/hour)
 async function checkOrgExistsPublic(
   orgName: string,
-): Promise<{ available: boolean; url?: string }> {
+): Promise<PublicLookupResult> {
   try {
-    const response = await fetch(`https://api.github.com/orgs/${orgName}`, {
+    const response = await fetchWithTimeout(`https://api.github.com/orgs/${orgName}`, {
       headers: {
         Accept: "application/vnd.github.v3+json",
         "User-Agent": "project-name-generator",
@@ -47,25 +91,20 @@ async function checkOrgExistsPublic(
 
     if (response.ok) {
       const data = (await response.json()) as { html_url: string };
-      return { available: false, url: data.html_url };
+      return { status: "taken", url: data.html_url };
     }
 
-    // Rate limited - return optimistic result
-    if (response.status === 403 || response.status === 429) {
-      return { available: true };
-    }
-
-    return { available: true };
+    return { status: statusFromPublicResponse(response) };
   } catch {
-    return { available: true };
+    return { status: "unknown" };
   }
 }
 
 async function checkUserExistsPublic(
   username: string,
-): Promise<{ available: boolean; url?: string }> {
+): Promise<PublicLookupResult> {
   try {
-    const response = await fetch(`https://api.github.com/users/${username}`, {
+    const response = await fetchWithTimeout(`https://api.github.com/users/${username}`, {
       headers: {
         Accept: "application/vnd.github.v3+json",
         "User-Agent": "project-name-generator",
@@ -73,26 +112,26 @@ async function checkUserExistsPublic(
     });
 
     if (response.status === 404) {
-      return { available: true };
+      return { status: "available" };
     }
 
     if (response.ok) {
       const data = (await response.json()) as { html_url: string };
-      return { available: false, url: data.html_url };
+      return { status: "taken", url: data.html_url };
     }
 
-    return { available: true };
+    return { status: statusFromPublicResponse(response) };
   } catch {
-    return { available: true };
+    return { status: "unknown" };
   }
 }
 
 // Check repo existence via public API
 async function checkRepoExistsPublic(
   name: string,
-): Promise<{ available: boolean; url?: string }> {
+): Promise<PublicLookupResult> {
   try {
-    const response = await fetch(
+    const response = await fetchWithTimeout(
       `https://api.github.com/search/repositories?q=${encodeURIComponent(name)}+in:name&per_page=10`,
       {
         headers: {
@@ -103,7 +142,7 @@ async function checkRepoExistsPublic(
     );
 
     if (!response.ok) {
-      return { available: true };
+      return { status: statusFromPublicResponse(response) };
     }
 
     const data = (await response.json()) as {
@@ -121,40 +160,30 @@ async function checkRepoExistsPublic(
         item.stargazers_count > 10,
     );
 
-    return {
-      available: !match,
-      url: match?.html_url,
-    };
+    return match
+      ? { status: "taken", url: match.html_url }
+      : { status: "available" };
   } catch {
-    return { available: true };
+    return { status: "unknown" };
   }
 }
 
 export const githubChecker: Checker = {
   name: "github",
   category: "repository",
+  normalize: normalizeGithubRepo,
   async check(name: string): Promise<CheckResult> {
     // Try public API first if we've hit rate limit
     if (shouldUsePublicApi()) {
       const result = await checkRepoExistsPublic(name);
-      return {
-        name,
-        platform: "github",
-        available: result.available,
-        url: result.url,
-      };
+      return toCheckResult("github", name, result);
     }
 
     const octokit = getOctokit();
     if (!octokit) {
       // No token - use public API
       const result = await checkRepoExistsPublic(name);
-      return {
-        name,
-        platform: "github",
-        available: result.available,
-        url: result.url,
-      };
+      return toCheckResult("github", name, result);
     }
 
     try {
@@ -184,6 +213,7 @@ export const githubChecker: Checker = {
       return {
         name,
         platform: "github",
+        status: existsUrl === undefined ? "available" : "taken",
         available: existsUrl === undefined,
         url: existsUrl,
       };
@@ -198,12 +228,7 @@ export const githubChecker: Checker = {
         markRateLimited();
         // Fall back to public API
         const result = await checkRepoExistsPublic(name);
-        return {
-          name,
-          platform: "github",
-          available: result.available,
-          url: result.url,
-        };
+        return toCheckResult("github", name, result);
       }
 
       return createErrorResult(
@@ -221,7 +246,7 @@ export const githubUniquenessChecker: Checker = {
   async check(name: string): Promise<CheckResult> {
     // Use public API for uniqueness check - it's less critical
     try {
-      const response = await fetch(
+      const response = await fetchWithTimeout(
         `https://api.github.com/search/repositories?q=${encodeURIComponent(name)}+in:name+stars:>=1&per_page=100`,
         {
           headers: {
@@ -232,11 +257,14 @@ export const githubUniquenessChecker: Checker = {
       );
 
       if (!response.ok) {
-        return createErrorResult(
-          "github-uniqueness",
-          name,
-          `GitHub API error: ${response.status}`,
-        );
+        return {
+          ...createErrorResult(
+            "github-uniqueness",
+            name,
+            `GitHub API error: ${response.status}`,
+          ),
+          status: statusFromPublicResponse(response),
+        };
       }
 
       const data = (await response.json()) as {
@@ -258,6 +286,7 @@ export const githubUniquenessChecker: Checker = {
       return {
         name,
         platform: "github-uniqueness",
+        status: "available",
         available: true,
         count: totalCount,
         activeCount: activeRepos.length,
@@ -273,66 +302,22 @@ export const githubUniquenessChecker: Checker = {
   },
 };
 
-// Variant suffixes to check for org names
-const ORG_VARIANT_SUFFIXES = [
-  "", // base name
-  "-dev",
-  "dev",
-  "-org",
-  "org",
-  "-hq",
-  "hq",
-  "-io",
-  "io",
-  "-app",
-  "app",
-  "-labs",
-  "labs",
-  "-oss",
-];
-
 export const githubOrgChecker: Checker = {
   name: "github-org",
   category: "repository",
+  // 15 lookups per name, and orgs rarely change hands - cache for a day
+  cacheTtl: 24 * 60 * 60 * 1000,
+  normalize: normalizeGithubOwner,
   async check(name: string): Promise<CheckResult> {
     try {
       // Always use public API for org checks - it's more efficient
-      // and doesn't burn through our authenticated rate limit
-      // Process variants in small batches to avoid rate limiting
-      const batchSize = 3;
-      const allResults: VariantResult[] = [];
-
-      for (let i = 0; i < ORG_VARIANT_SUFFIXES.length; i += batchSize) {
-        const batch = ORG_VARIANT_SUFFIXES.slice(i, i + batchSize);
-        const batchResults = await Promise.all(
-          batch.map(async (suffix): Promise<VariantResult> => {
-            const variantName = `${name}${suffix}`;
-            const result = await checkOrgExistsPublic(variantName);
-            return {
-              variant: variantName,
-              available: result.available,
-              url: result.url,
-            };
-          }),
-        );
-        allResults.push(...batchResults);
-
-        // Small delay between batches to avoid rate limiting
-        if (i + batchSize < ORG_VARIANT_SUFFIXES.length) {
-          await new Promise((resolve) => setTimeout(resolve, 100));
-        }
-      }
-
-      const availableVariants = allResults.filter((r) => r.available);
-      const hasAvailableVariant = availableVariants.length > 0;
-
-      return {
+      // and doesn't burn through our authenticated rate limit.
+      return await checkNamespaceVariants(
+        "github-org",
         name,
-        platform: "github-org",
-        available: hasAvailableVariant,
-        url: hasAvailableVariant ? undefined : allResults[0].url,
-        variants: availableVariants,
-      };
+        "GitHub API",
+        checkOrgExistsPublic,
+      );
     } catch (error) {
       return createErrorResult(
         "github-org",
@@ -1,36 +1,150 @@
-import type { Checker, CheckResult } from "../types";
-import { fetchWithTimeout, createErrorResult } from "./base";
+import type { Checker, CheckResult, PackageMatch } from "../types";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createRateLimitedResult,
+} from "./base";
 
+// Module paths a project called <name> would most likely use
+const MODULE_PATH_PATTERNS = [
+  "github.com/{name}/{name}",
+  "gitlab.com/{name}/{name}",
+  "{name}.dev",
+  "{name}.io",
+];
+
+// Search hits listed besides exact matches
+const MAX_LOOSE_HITS = 5;
+
+// The proxy protocol escapes uppercase letters as "!" + lowercase
+function escapeModulePath(path: string): string {
+  return path.replace(/[A-Z]/g, (c) => `!${c.toLowerCase()}`);
+}
+
+// Latest version of a module from proxy.golang.org, null if it doesn't
+// exist (404/410). Returns the response itself when the lookup fails.
+async function lookupModule(path: string): Promise<string | null | Response> {
+  const response = await fetchWithTimeout(
+    `https://proxy.golang.org/${escapeModulePath(path)}/@latest`,
+  );
+  if (response.status === 404 || response.status === 410) return null;
+  if (!response.ok) return response;
+
+  const data = (await response.json()) as { Version: string };
+  return data.Version;
+}
+
+// Last import path element, skipping a major version suffix
+// ("github.com/foo/bar/v2" -> "bar")
+function packageName(path: string): string {
+  const parts = path.split("/");
+  const last = parts.pop() ?? "";
+  return /^v\d+$/.test(last) ? (parts.pop() ?? last) : last;
+}
+
+// Shown by pkg.go.dev when a search has no hits
+const NO_RESULTS_MARKER = /No results found/i;
+
+// Package paths from the pkg.go.dev search results, or an error message
+// when the search fails. The page has no stable API, so a page without
+// hits only counts as empty when it says so; anything else means the
+// markup changed.
+async function searchPackages(name: string): Promise<string[] | string> {
+  try {
+    const response = await fetchWithTimeout(
+      `https://pkg.go.dev/search?q=${encodeURIComponent(name)}&m=package&limit=100`,
+    );
+    if (!response.ok) return `pkg.go.dev search returned ${response.status}`;
+
+    const html = await response.text();
+    const paths = [
+      ...html.matchAll(/href="\/([^"?#]+)"[^>]*data-test-id="snippet-title"/g),
+    ].map((m) => decodeURIComponent(m[1]!));
+    if (paths.length === 0 && !NO_RESULTS_MARKER.test(html)) {
+      return "Couldn't read the pkg.go.dev search results";
+    }
+    return [...new Set(paths)];
+  } catch (error) {
+    return `pkg.go.dev search failed: ${error instanceof Error ? error.message : "Unknown error"}`;
+  }
+}
+
+// Taken when a likely module path exists on the module proxy, or a package
+// whose import name (and `go install` binary) is <name> shows up on
+// pkg.go.dev. Other search hits are listed without counting against the name.
 export const goChecker: Checker = {
   name: "go",
   category: "package",
   async check(name: string): Promise<CheckResult> {
     try {
-      const response = await fetchWithTimeout(
-        `https://pkg.go.dev/search?q=${encodeURIComponent(name)}&m=package`
+      const modulePaths = MODULE_PATH_PATTERNS.map((p) =>
+        p.replaceAll("{name}", name),
       );
-      const text = await response.text();
-      // Parse the search results count from the page
-      const regex = /Showing <strong>(\d+)<\/strong>/;
-      const match = text.match(regex);
-      let searchCount = 0;
-      if (match && match[1]) {
-        searchCount = parseInt(match[1], 10);
+      const [versions, search] = await Promise.all([
+        Promise.all(modulePaths.map(lookupModule)),
+        searchPackages(name),
+      ]);
+
+      const failed = versions.find((v) => v instanceof Response);
+      if (failed) {
+        if (failed.status === 429) {
+          return createRateLimitedResult("go", name);
+        }
+        return createErrorResult(
+          "go",
+          name,
+          `Go module proxy returned ${failed.status}`,
+        );
+      }
+
+      const matches: PackageMatch[] = [];
+      modulePaths.forEach((path, i) => {
+        const version = versions[i];
+        if (typeof version !== "string") return;
+        matches.push({
+          name: path,
+          exact: true,
+          reason: "module",
+          version,
+          url: `https://pkg.go.dev/${path}`,
+        });
+      });
+
+      const searchPaths = typeof search === "string" ? [] : search;
+      const loose: PackageMatch[] = [];
+      for (const path of searchPaths) {
+        if (modulePaths.includes(path)) continue;
+        const match: PackageMatch = {
+          name: path,
+          exact: packageName(path).toLowerCase() === name.toLowerCase(),
+          reason: "package",
+          url: `https://pkg.go.dev/${path}`,
+        };
+        if (match.exact) matches.push(match);
+        else loose.push({ ...match, reason: "search" });
       }
-      const available = searchCount === 0;
+      matches.push(...loose.slice(0, MAX_LOOSE_HITS));
+
+      const exact = matches.find((m) => m.exact);
+
+      // Without the search, a package named <name> could have been missed
+      if (!exact && typeof search === "string") {
+        return { ...createErrorResult("go", name, search), matches };
+      }
+
       return {
         name,
         platform: "go",
-        available,
-        url: available
-          ? undefined
-          : `https://pkg.go.dev/search?q=${encodeURIComponent(name)}&m=package`,
+        status: exact ? "taken" : "available",
+        available: !exact,
+        url: exact?.url,
+        matches,
       };
     } catch (error) {
       return createErrorResult(
         "go",
         name,
-        error instanceof Error ? error.message : "Unknown error"
+        error instanceof Error ? error.message : "Unknown error",
       );
     }
   },
@@ -1,5 +1,9 @@
 import type { Checker, CheckResult } from "../types";
-import { fetchWithTimeout, createErrorResult } from "./base";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createRateLimitedResult,
+} from "./base";
 
 export const homebrewChecker: Checker = {
   name: "homebrew",
@@ -20,6 +24,19 @@ export const homebrewChecker: Checker = {
       const caskExists = caskRes.status === 200;
       const available = !formulaExists && !caskExists;
 
+      // Only trust "available" when both lookups returned a clean 404
+      if (available && (formulaRes.status !== 404 || caskRes.status !== 404)) {
+        const failed = formulaRes.status !== 404 ? formulaRes : caskRes;
+        if (failed.status === 429) {
+          return createRateLimitedResult("homebrew", name);
+        }
+        return createErrorResult(
+          "homebrew",
+          name,
+          `Homebrew API returned ${failed.status}`
+        );
+      }
+
       let url: string | undefined;
       if (caskExists) {
         url = `https://formulae.brew.sh/cask/${name}`;
@@ -30,6 +47,7 @@ export const homebrewChecker: Checker = {
       return {
         name,
         platform: "homebrew",
+        status: available ? "available" : "taken",
         available,
         url,
       };
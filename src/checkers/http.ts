@@ -0,0 +1,324 @@
+import { parse } from "yaml";
+// As text, so a broken file can be reported instead of failing the import.
+// Bundled like the profiles, so compiled binaries have it too.
+import checkersYaml from "../../config/checkers.yaml" with { type: "text" };
+import {
+  CHECKER_CATEGORIES,
+  type AvailabilityStatus,
+  type Checker,
+  type CheckerCategory,
+  type CheckResult,
+} from "../types";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createRateLimitedResult,
+} from "./base";
+import { loadConfig } from "../config";
+import type { ForgeDefinition } from "./forge";
+import type { VariantSet } from "./namespace";
+
+// A rule deciding whether a response means the name is taken.
+// Either match on status codes, or read a value from the JSON body.
+export interface TakenRule {
+  status?: number[];
+  jsonPath?: string;
+  equals?: string | number | boolean;
+}
+
+export interface HttpCheckerDefinition {
+  name: string;
+  category: CheckerCategory;
+  url: string;
+  method?: "GET" | "HEAD";
+  headers?: Record<string, string>;
+  taken?: TakenRule;
+  displayUrl?: string;
+  // Seconds to keep results in the check cache
+  cacheTtl?: number;
+  timeout?: number;
+}
+
+// config/checkers.yaml, and the same keys in the user and project config
+export interface CheckersFile {
+  checkers?: HttpCheckerDefinition[];
+  // TLDs to check, one domain-<tld> checker each
+  domains?: string[];
+  // Mastodon instances for the mastodon checker
+  mastodon?: string[];
+  // Self-hosted Gitea/Forgejo and GitLab instances
+  forges?: ForgeDefinition[];
+  // Name variants for namespace checkers and `checkname variants`
+  variants?: Partial<VariantSet>;
+}
+
+const CHECKERS_FILE = "config/checkers.yaml";
+
+// Replace {name} with the URL-encoded name
+function fillTemplate(template: string, name: string): string {
+  return template.replace(/\{name\}/g, encodeURIComponent(name));
+}
+
+// Replace ${VAR} with environment variables (for auth headers)
+export function expandEnv(value: string): string {
+  return value.replace(
+    /\$\{(\w+)\}/g,
+    (_, key: string) => process.env[key] ?? "",
+  );
+}
+
+// Resolve a dot path like "data.items[0].name" against a parsed JSON body
+export function getJsonPath(data: unknown, jsonPath: string): unknown {
+  const segments = jsonPath
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".")
+    .filter((s) => s.length > 0);
+
+  let current: unknown = data;
+  for (const segment of segments) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+// Empty arrays/objects, 0, "" and null all count as "nothing there"
+function isPresent(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value && typeof value === "object") return Object.keys(value).length > 0;
+  return Boolean(value);
+}
+
+async function evaluateResponse(
+  response: Response,
+  rule: TakenRule | undefined,
+): Promise<AvailabilityStatus> {
+  if (response.status === 429) return "rate-limited";
+
+  if (rule?.status) {
+    if (rule.status.includes(response.status)) return "taken";
+    if (response.status === 404) return "available";
+    if (!rule.jsonPath) return response.ok ? "available" : "unknown";
+  }
+
+  if (rule?.jsonPath) {
+    if (response.status === 404) return "available";
+    if (!response.ok) return "unknown";
+
+    const value = getJsonPath(await response.json(), rule.jsonPath);
+    const taken =
+      rule.equals !== undefined ? value === rule.equals : isPresent(value);
+    return taken ? "taken" : "available";
+  }
+
+  // Default rule: 404 means free, any success means taken
+  if (response.status === 404) return "available";
+  if (response.ok) return "taken";
+  return "unknown";
+}
+
+export function createHttpChecker(definition: HttpCheckerDefinition): Checker {
+  const { name: platform, category, method = "GET" } = definition;
+
+  return {
+    name: platform,
+    category,
+    cacheTtl:
+      definition.cacheTtl !== undefined
+        ? definition.cacheTtl * 1000
+        : undefined,
+    async check(name: string): Promise<CheckResult> {
+      try {
+        const headers: Record<string, string> = {};
+        for (const [key, value] of Object.entries(definition.headers ?? {})) {
+          headers[key] = expandEnv(value);
+        }
+
+        const response = await fetchWithTimeout(
+          fillTemplate(definition.url, name),
+          { method, headers },
+          definition.timeout,
+        );
+
+        const status = await evaluateResponse(response, definition.taken);
+        if (status === "rate-limited") {
+          return createRateLimitedResult(platform, name);
+        }
+        if (status === "unknown") {
+          return createErrorResult(
+            platform,
+            name,
+            `${platform} returned ${response.status}`,
+          );
+        }
+
+        return {
+          name,
+          platform,
+          status,
+          available: status === "available",
+          url:
+            status === "taken"
+              ? fillTemplate(definition.displayUrl ?? definition.url, name)
+              : undefined,
+        };
+      } catch (error) {
+        return createErrorResult(
+          platform,
+          name,
+          error instanceof Error ? error.message : "Unknown error",
+        );
+      }
+    },
+  };
+}
+
+function validateDefinition(definition: HttpCheckerDefinition): string | null {
+  if (!definition.name) return "missing 'name'";
+  if (!definition.url) return `${definition.name}: missing 'url'`;
+  if (!CHECKER_CATEGORIES.includes(definition.category)) {
+    return `${definition.name}: unknown category '${definition.category}' (expected one of ${CHECKER_CATEGORIES.join(", ")})`;
+  }
+  if (definition.method && !["GET", "HEAD"].includes(definition.method)) {
+    return `${definition.name}: method must be GET or HEAD`;
+  }
+  if (definition.method === "HEAD" && definition.taken?.jsonPath) {
+    return `${definition.name}: jsonPath rules need a GET request`;
+  }
+  return null;
+}
+
+const isStringList = (value: unknown) =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+// Top-level shape only; individual checker definitions are validated
+// (and skipped one by one) when the checkers are built
+function validateCheckersFile(parsed: unknown): string | null {
+  if (typeof parsed !== "object" || Array.isArray(parsed)) {
+    return "expected a mapping";
+  }
+  const file = parsed as Record<string, unknown>;
+  for (const key of ["checkers", "forges"]) {
+    const list = file[key];
+    if (list === undefined) continue;
+    if (
+      !Array.isArray(list) ||
+      !list.every((e) => typeof e === "object" && e !== null)
+    ) {
+      return `'${key}' must be a list of mappings`;
+    }
+  }
+  for (const key of ["domains", "mastodon"]) {
+    if (file[key] !== undefined && !isStringList(file[key])) {
+      return `'${key}' must be a list of strings`;
+    }
+  }
+  if (file.variants !== undefined) {
+    const variants = file.variants as Record<string, unknown> | null;
+    if (
+      typeof variants !== "object" ||
+      variants === null ||
+      Array.isArray(variants) ||
+      (variants.prefixes !== undefined && !isStringList(variants.prefixes)) ||
+      (variants.suffixes !== undefined && !isStringList(variants.suffixes))
+    ) {
+      return "'variants' must have 'prefixes' and 'suffixes' lists of strings";
+    }
+  }
+  return null;
+}
+
+// Entries of `over` replace same-named ones of `base`, the rest are added
+function mergeByName<T extends { name: string }>(
+  base: T[] = [],
+  over: T[] = [],
+): T[] {
+  const key = (e: T) => String(e.name).toLowerCase();
+  const names = new Set(over.map(key));
+  return [...base.filter((e) => !names.has(key(e))), ...over];
+}
+
+// Later layers add checkers and forges, and replace the lists they set
+function mergeCheckersFiles(
+  base: CheckersFile,
+  over: CheckersFile,
+): CheckersFile {
+  return {
+    checkers: mergeByName(base.checkers, over.checkers),
+    forges: mergeByName(base.forges, over.forges),
+    domains: over.domains ?? base.domains,
+    mastodon: over.mastodon ?? base.mastodon,
+    variants: { ...base.variants, ...over.variants },
+  };
+}
+
+function readBundledFile(): CheckersFile {
+  let parsed: unknown;
+  try {
+    parsed = parse(checkersYaml as string);
+  } catch (error) {
+    console.warn(
+      `Ignoring ${CHECKERS_FILE}: ${error instanceof Error ? error.message : error}`,
+    );
+    return {};
+  }
+  if (parsed === null || parsed === undefined) return {};
+
+  const problem = validateCheckersFile(parsed);
+  if (problem) {
+    console.warn(`Ignoring ${CHECKERS_FILE}: ${problem}`);
+    return {};
+  }
+  return parsed as CheckersFile;
+}
+
+let checkersFile: Promise<CheckersFile> | null = null;
+
+async function readCheckersFile(): Promise<CheckersFile> {
+  // An invalid config file is reported when the CLI starts
+  const config = await loadConfig().catch(() => null);
+
+  let merged = readBundledFile();
+  for (const layer of config?.layers ?? []) {
+    const problem = validateCheckersFile(layer.config);
+    if (problem) {
+      console.warn(`Ignoring checker settings in ${layer.path}: ${problem}`);
+      continue;
+    }
+    merged = mergeCheckersFiles(merged, layer.config);
+  }
+  return merged;
+}
+
+// config/checkers.yaml with the user and project config merged over it
+// (read once)
+export function loadCheckersFile(): Promise<CheckersFile> {
+  checkersFile ??= readCheckersFile();
+  return checkersFile;
+}
+
+export async function loadHttpCheckers(
+  reservedNames: string[] = [],
+): Promise<Checker[]> {
+  const parsed = await loadCheckersFile();
+  const reserved = new Set(reservedNames.map((n) => n.toLowerCase()));
+  const checkers: Checker[] = [];
+
+  for (const definition of parsed.checkers ?? []) {
+    const problem =
+      validateDefinition(definition) ??
+      (reserved.has(definition.name.toLowerCase())
+        ? `${definition.name}: name already used by another checker`
+        : null);
+
+    if (problem) {
+      console.warn(`Skipping custom checker: ${problem}`);
+      continue;
+    }
+
+    reserved.add(definition.name.toLowerCase());
+    checkers.push(createHttpChecker(definition));
+  }
+
+  return checkers;
+}
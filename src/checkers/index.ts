@@ -6,22 +6,98 @@ import { nugetChecker } from "./nuget";
 import { goChecker } from "./go";
 import { packagistChecker } from "./packagist";
 import { homebrewChecker } from "./homebrew";
+import { rubygemsChecker } from "./rubygems";
+import { mavenChecker, mavenGroupChecker } from "./maven";
+import { cocoapodsChecker } from "./cocoapods";
+import { pubChecker } from "./pub";
 import {
   githubChecker,
   githubOrgChecker,
   githubUniquenessChecker,
 } from "./github";
-import { gitlabChecker } from "./gitlab";
+import {
+  gitlabChecker,
+  gitlabOrgChecker,
+  codebergChecker,
+  codebergOrgChecker,
+  sourcehutChecker,
+  bitbucketChecker,
+  loadForgeCheckers,
+} from "./forge";
 import { nixpkgsChecker } from "./nixpkgs";
-import { devDomainChecker } from "./domain";
+import {
+  debianChecker,
+  ubuntuChecker,
+  fedoraChecker,
+  archChecker,
+  aurChecker,
+  alpineChecker,
+} from "./distro";
+import {
+  dockerhubChecker,
+  dockerhubNamespaceChecker,
+  quayChecker,
+  ghcrChecker,
+  artifacthubChecker,
+} from "./container";
+import {
+  devDomainChecker,
+  createDomainChecker,
+  DEFAULT_TLDS,
+} from "./domain";
 import {
   usptoChecker,
+  euipoChecker,
+  wipoChecker,
+  trademarkLocalChecker,
   googleSoftwareChecker,
   googleOpenSourceChecker,
   fossmarksChecker,
 } from "./trademark";
+import {
+  npmSimilarityChecker,
+  pypiSimilarityChecker,
+  cratesSimilarityChecker,
+} from "./similarity";
+import { commandChecker } from "./command";
+import { notabilityChecker } from "./notability";
+import {
+  blueskyChecker,
+  createMastodonChecker,
+  redditChecker,
+  xChecker,
+  DEFAULT_MASTODON_INSTANCES,
+} from "./social";
+import { DEFAULT_VARIANTS, setVariantSet } from "./namespace";
+import { loadCheckersFile, loadHttpCheckers } from "./http";
 
-export const allCheckers: Checker[] = [
+// config/checkers.yaml, with the same keys from the user and project config
+// merged over it. One domain checker per TLD, configurable via `domains:`.
+const checkersFile = await loadCheckersFile();
+
+const tlds = [
+  ...new Set(
+    (checkersFile.domains ?? DEFAULT_TLDS).map((tld) =>
+      tld.replace(/^\./, "").toLowerCase(),
+    ),
+  ),
+];
+const tldCheckers = tlds.map((tld) =>
+  tld === "dev" ? devDomainChecker : createDomainChecker(tld),
+);
+
+// Name variants, configurable via `variants:` in config/checkers.yaml
+setVariantSet({
+  prefixes: checkersFile.variants?.prefixes ?? DEFAULT_VARIANTS.prefixes,
+  suffixes: checkersFile.variants?.suffixes ?? DEFAULT_VARIANTS.suffixes,
+});
+
+// Mastodon instances, configurable via `mastodon:` in config/checkers.yaml
+const mastodonChecker = createMastodonChecker(
+  checkersFile.mastodon ?? DEFAULT_MASTODON_INSTANCES,
+);
+
+const builtinCheckers: Checker[] = [
   // Package registries
   npmChecker,
   npmOrgChecker,
@@ -32,36 +108,101 @@ export const allCheckers: Checker[] = [
   packagistChecker,
   homebrewChecker,
   nixpkgsChecker,
+  rubygemsChecker,
+  mavenChecker,
+  mavenGroupChecker,
+  cocoapodsChecker,
+  pubChecker,
+  // Linux distributions
+  debianChecker,
+  ubuntuChecker,
+  fedoraChecker,
+  archChecker,
+  aurChecker,
+  alpineChecker,
+  // Command names
+  commandChecker,
   // Repositories
   githubChecker,
   githubOrgChecker,
   gitlabChecker,
+  gitlabOrgChecker,
+  codebergChecker,
+  codebergOrgChecker,
+  sourcehutChecker,
+  bitbucketChecker,
+  // Container and artifact registries
+  dockerhubChecker,
+  dockerhubNamespaceChecker,
+  quayChecker,
+  ghcrChecker,
+  artifacthubChecker,
   // Domains
-  devDomainChecker,
+  ...tldCheckers,
+  // Social handles
+  blueskyChecker,
+  mastodonChecker,
+  redditChecker,
+  xChecker,
   // Uniqueness
   githubUniquenessChecker,
+  notabilityChecker,
+  // Similar (typosquat / confusable) names
+  npmSimilarityChecker,
+  pypiSimilarityChecker,
+  cratesSimilarityChecker,
   // Trademarks
   usptoChecker,
+  euipoChecker,
+  wipoChecker,
+  trademarkLocalChecker,
   googleSoftwareChecker,
   googleOpenSourceChecker,
   fossmarksChecker,
 ];
 
+// Self-hosted forges and declarative checkers from config/checkers.yaml
+const forgeCheckers = loadForgeCheckers(
+  checkersFile.forges ?? [],
+  builtinCheckers.map((c) => c.name),
+);
+const httpCheckers = await loadHttpCheckers(
+  [...builtinCheckers, ...forgeCheckers].map((c) => c.name),
+);
+
+export const allCheckers: Checker[] = [
+  ...builtinCheckers,
+  ...forgeCheckers,
+  ...httpCheckers,
+];
+
 export const packageCheckers = allCheckers.filter(
   (c) => c.category === "package",
 );
 export const repositoryCheckers = allCheckers.filter(
   (c) => c.category === "repository",
 );
+export const containerCheckers = allCheckers.filter(
+  (c) => c.category === "container",
+);
+export const commandCheckers = allCheckers.filter(
+  (c) => c.category === "command",
+);
 export const domainCheckers = allCheckers.filter(
   (c) => c.category === "domain",
 );
+export const socialCheckers = allCheckers.filter(
+  (c) => c.category === "social",
+);
 export const trademarkCheckers = allCheckers.filter(
   (c) => c.category === "trademark",
 );
 export const uniquenessCheckers = allCheckers.filter(
   (c) => c.category === "uniqueness",
 );
+export const similarityCheckers = allCheckers.filter(
+  (c) => c.category === "similarity",
+);
 
 export function getCheckersByNames(names: string[]): Checker[] {
   const lowerNames = names.map((n) => n.toLowerCase());
@@ -77,13 +218,47 @@ export {
   goChecker,
   packagistChecker,
   homebrewChecker,
+  rubygemsChecker,
+  mavenChecker,
+  mavenGroupChecker,
+  cocoapodsChecker,
+  pubChecker,
+  debianChecker,
+  ubuntuChecker,
+  fedoraChecker,
+  archChecker,
+  aurChecker,
+  alpineChecker,
+  commandChecker,
   githubChecker,
   githubOrgChecker,
   githubUniquenessChecker,
+  notabilityChecker,
   gitlabChecker,
+  gitlabOrgChecker,
+  codebergChecker,
+  codebergOrgChecker,
+  sourcehutChecker,
+  bitbucketChecker,
   nixpkgsChecker,
+  dockerhubChecker,
+  dockerhubNamespaceChecker,
+  quayChecker,
+  ghcrChecker,
+  artifacthubChecker,
   devDomainChecker,
+  createDomainChecker,
+  blueskyChecker,
+  mastodonChecker,
+  redditChecker,
+  xChecker,
+  npmSimilarityChecker,
+  pypiSimilarityChecker,
+  cratesSimilarityChecker,
   usptoChecker,
+  euipoChecker,
+  wipoChecker,
+  trademarkLocalChecker,
   googleSoftwareChecker,
   googleOpenSourceChecker,
   fossmarksChecker,
@@ -0,0 +1,111 @@
+import type { Checker, CheckResult } from "../types";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createRateLimitedResult,
+} from "./base";
+import { normalizeMavenName } from "./normalize";
+
+// Group IDs a project called <name> would usually publish under
+const GROUP_PATTERNS = [
+  "{name}",
+  "com.{name}",
+  "io.{name}",
+  "org.{name}",
+  "dev.{name}",
+  "io.github.{name}",
+];
+
+interface SearchResponse {
+  response: { numFound: number };
+}
+
+// Ask Maven Central's search API whether anything matches a Solr query
+async function searchCentral(query: string): Promise<number | "rate-limited"> {
+  const response = await fetchWithTimeout(
+    `https://search.maven.org/solrsearch/select?q=${encodeURIComponent(query)}&rows=1&wt=json`,
+  );
+  if (response.status === 429) return "rate-limited";
+  if (!response.ok) {
+    throw new Error(`Maven Central search returned ${response.status}`);
+  }
+  const data = (await response.json()) as SearchResponse;
+  return data.response.numFound;
+}
+
+// Artifact IDs are only unique within a group, so any existing artifact
+// with this ID counts as a clash
+export const mavenChecker: Checker = {
+  name: "maven",
+  category: "package",
+  normalize: normalizeMavenName,
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const found = await searchCentral(`a:"${name}"`);
+      if (found === "rate-limited") {
+        return createRateLimitedResult("maven", name);
+      }
+
+      return {
+        name,
+        platform: "maven",
+        status: found > 0 ? "taken" : "available",
+        available: found === 0,
+        url:
+          found > 0
+            ? `https://central.sonatype.com/search?q=a:${encodeURIComponent(name)}`
+            : undefined,
+      };
+    } catch (error) {
+      return createErrorResult(
+        "maven",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
+
+export const mavenGroupChecker: Checker = {
+  name: "maven-group",
+  category: "package",
+  normalize: normalizeMavenName,
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const groups = GROUP_PATTERNS.map((p) => p.replace("{name}", name));
+      const results = await Promise.all(
+        groups.map((group) => searchCentral(`g:"${group}"`)),
+      );
+
+      const takenGroup = groups.find((_, i) => {
+        const found = results[i];
+        return typeof found === "number" && found > 0;
+      });
+      if (takenGroup) {
+        return {
+          name,
+          platform: "maven-group",
+          status: "taken",
+          available: false,
+          url: `https://central.sonatype.com/namespace/${takenGroup}`,
+        };
+      }
+      if (results.includes("rate-limited")) {
+        return createRateLimitedResult("maven-group", name);
+      }
+
+      return {
+        name,
+        platform: "maven-group",
+        status: "available",
+        available: true,
+      };
+    } catch (error) {
+      return createErrorResult(
+        "maven-group",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
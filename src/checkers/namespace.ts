@@ -0,0 +1,118 @@
+import type { AvailabilityStatus, CheckResult, VariantResult } from "../types";
+
+// Outcome of looking up a single user/org namespace
+export interface NamespaceLookup {
+  status: AvailabilityStatus;
+  url?: string;
+}
+
+// Prefixes and suffixes that turn a name into alternatives ("get-foo",
+// "foo-cli"), configurable via `variants:` in config/checkers.yaml
+export interface VariantSet {
+  prefixes: string[];
+  suffixes: string[];
+}
+
+export const DEFAULT_VARIANTS: VariantSet = {
+  prefixes: ["get-", "use-"],
+  suffixes: [
+    "-dev",
+    "dev",
+    "-org",
+    "org",
+    "-hq",
+    "hq",
+    "-io",
+    "io",
+    "-app",
+    "app",
+    "-labs",
+    "labs",
+    "-oss",
+    "-cli",
+    "-lang",
+    "js",
+    "py",
+  ],
+};
+
+let variantSet: VariantSet = DEFAULT_VARIANTS;
+
+export function setVariantSet(variants: VariantSet): void {
+  variantSet = variants;
+}
+
+// The name itself followed by its prefixed and suffixed variants
+export function nameVariants(name: string): string[] {
+  return [
+    ...new Set([
+      name,
+      ...variantSet.prefixes.map((prefix) => `${prefix}${name}`),
+      ...variantSet.suffixes.map((suffix) => `${name}${suffix}`),
+    ]),
+  ];
+}
+
+// Look up every variant of a namespace. The name counts as available when
+// any variant is free, and only as taken when every variant was confirmed
+// taken. `service` names the API in error messages ("GitHub API"). All
+// variants are returned, the base name first.
+export async function checkNamespaceVariants(
+  platform: string,
+  name: string,
+  service: string,
+  lookup: (variant: string) => Promise<NamespaceLookup>,
+): Promise<CheckResult> {
+  // The request scheduler paces the lookups per host
+  const allResults = await Promise.all(
+    nameVariants(name).map(async (variantName): Promise<VariantResult> => {
+      const result = await lookup(variantName);
+      return {
+        variant: variantName,
+        status: result.status,
+        available: result.status === "available",
+        url: result.url,
+      };
+    }),
+  );
+
+  const hasAvailableVariant = allResults.some((r) => r.available);
+
+  let status: AvailabilityStatus = "taken";
+  if (hasAvailableVariant) {
+    status = "available";
+  } else if (allResults.some((r) => r.status === "rate-limited")) {
+    status = "rate-limited";
+  } else if (allResults.some((r) => r.status === "unknown")) {
+    status = "unknown";
+  }
+
+  return {
+    name,
+    platform,
+    status,
+    available: hasAvailableVariant,
+    url: status === "taken" ? allResults[0]?.url : undefined,
+    error:
+      status === "rate-limited"
+        ? `${service} rate limited`
+        : status === "unknown"
+          ? `${service} lookup failed`
+          : undefined,
+    variants: allResults,
+  };
+}
+
+// Map a single namespace lookup response to a status: 404 is free, success
+// is taken (with the profile URL), 403/429 is a rate limit
+export function namespaceStatus(
+  response: Response,
+  url: string,
+): NamespaceLookup {
+  if (response.status === 404) return { status: "available" };
+  if (response.ok) return { status: "taken", url };
+  if (response.status === 403 || response.status === 429) {
+    return { status: "rate-limited" };
+  }
+  return { status: "unknown" };
+}
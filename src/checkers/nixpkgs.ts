@@ -1,66 +1,116 @@
-import type { Checker, CheckResult } from "../types";
-import { fetchWithTimeout, createErrorResult } from "./base";
+import type { Checker, CheckResult, PackageMatch } from "../types";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createRateLimitedResult,
+} from "./base";
 
+// Elasticsearch backend behind search.nixos.org. The index name carries a
+// schema version that changes between releases, so match any version.
+const SEARCH_URL = "https://search.nixos.org/backend";
+const DEFAULT_INDEX = "latest-*-nixos-unstable";
+
+// Read-only credentials published by the search.nixos.org frontend
+const DEFAULT_AUTH = "aWVSALXpZv:X8gPHnzL52wFEekuxsfQ9cSh";
+
+interface NixPackage {
+  package_attr_name: string;
+  package_pname?: string;
+  package_pversion?: string;
+  package_description?: string | null;
+  package_mainProgram?: string | null;
+  package_programs?: string[];
+}
+
+// What makes a package collide with the name, most specific first
+function matchReason(pkg: NixPackage, name: string): string | null {
+  if (pkg.package_attr_name === name) return "attribute";
+  if (pkg.package_pname === name) return "pname";
+  if (pkg.package_mainProgram === name) return "mainProgram";
+  if (pkg.package_programs?.includes(name)) return "program";
+  return null;
+}
+
+// Taken when a package has the name as its attribute, pname, mainProgram
+// or one of its installed binaries
 export const nixpkgsChecker: Checker = {
   name: "nixpkgs",
   category: "package",
   async check(name: string): Promise<CheckResult> {
-    try {
-      const lowerName = name.toLowerCase();
-      // Nixpkgs by-name uses first 2 chars as directory prefix
-      const prefix = lowerName.slice(0, 2);
+    const index = process.env.NIXOS_SEARCH_INDEX || DEFAULT_INDEX;
+    const auth = process.env.NIXOS_SEARCH_AUTH || DEFAULT_AUTH;
 
-      // Check if package exists in pkgs/by-name structure
-      const url = `https://api.github.com/repos/NixOS/nixpkgs/contents/pkgs/by-name/${prefix}/${lowerName}`;
-      const response = await fetchWithTimeout(url);
+    try {
+      const response = await fetchWithTimeout(
+        `${SEARCH_URL}/${index}/_search`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Basic ${btoa(auth)}`,
+          },
+          body: JSON.stringify({
+            size: 20,
+            query: {
+              bool: {
+                filter: [{ term: { type: "package" } }],
+                should: [
+                  { term: { package_attr_name: name } },
+                  { term: { package_pname: name } },
+                  { term: { package_mainProgram: name } },
+                  { term: { package_programs: name } },
+                ],
+                minimum_should_match: 1,
+              },
+            },
+          }),
+        },
+      );
 
-      if (response.status === 200) {
-        // Package exists in by-name
-        return {
+      if (response.status === 429) {
+        return createRateLimitedResult("nixpkgs", name);
+      }
+      if (!response.ok) {
+        return createErrorResult(
+          "nixpkgs",
           name,
-          platform: "nixpkgs",
-          available: false,
-          url: `https://search.nixos.org/packages?query=${encodeURIComponent(name)}`,
-        };
+          `NixOS search returned ${response.status}${response.status === 404 ? " (set NIXOS_SEARCH_INDEX if the index was renamed)" : ""}`,
+        );
       }
 
-      if (response.status === 404) {
-        // Not in by-name, but could be in all-packages.nix (legacy)
-        // Do a GitHub code search as fallback
-        const searchUrl = `https://api.github.com/search/code?q=${encodeURIComponent(name)}+repo:NixOS/nixpkgs+filename:all-packages.nix`;
-        const searchResponse = await fetchWithTimeout(searchUrl);
+      const data = (await response.json()) as {
+        hits: { hits: Array<{ _source: NixPackage }> };
+      };
 
-        if (searchResponse.ok) {
-          const searchData = await searchResponse.json();
-          if (searchData.total_count > 0) {
-            // Found in legacy location
-            return {
-              name,
-              platform: "nixpkgs",
-              available: false,
-              url: `https://search.nixos.org/packages?query=${encodeURIComponent(name)}`,
-            };
-          }
-        }
+      // The wildcard index can return the same package from two versions
+      const seen = new Set<string>();
+      const matches: PackageMatch[] = [];
+      for (const { _source: pkg } of data.hits.hits) {
+        const reason = matchReason(pkg, name);
+        if (!reason || seen.has(pkg.package_attr_name)) continue;
+        seen.add(pkg.package_attr_name);
 
-        // Not found anywhere
-        return {
-          name,
-          platform: "nixpkgs",
-          available: true,
-        };
+        matches.push({
+          name: pkg.package_attr_name,
+          exact: true,
+          reason,
+          version: pkg.package_pversion,
+          description: pkg.package_description ?? undefined,
+          url: `https://search.nixos.org/packages?channel=unstable&show=${encodeURIComponent(pkg.package_attr_name)}&query=${encodeURIComponent(name)}`,
+        });
       }
 
-      // Rate limited or other error
-      if (response.status === 403) {
-        return createErrorResult("nixpkgs", name, "GitHub API rate limited");
-      }
+      const order = ["attribute", "pname", "mainProgram", "program"];
+      matches.sort((a, b) => order.indexOf(a.reason) - order.indexOf(b.reason));
 
-      return createErrorResult(
-        "nixpkgs",
+      return {
         name,
-        `GitHub API returned ${response.status}`,
-      );
+        platform: "nixpkgs",
+        status: matches.length > 0 ? "taken" : "available",
+        available: matches.length === 0,
+        url: matches[0]?.url,
+        matches,
+      };
     } catch (error) {
       return createErrorResult(
         "nixpkgs",
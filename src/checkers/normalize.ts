@@ -0,0 +1,355 @@
+import type { NameValidation } from "../types";
+
+// Node.js core modules can't be published as npm packages
+const NODE_BUILTINS = new Set([
+  "assert",
+  "buffer",
+  "child_process",
+  "cluster",
+  "console",
+  "constants",
+  "crypto",
+  "dgram",
+  "dns",
+  "domain",
+  "events",
+  "fs",
+  "http",
+  "http2",
+  "https",
+  "inspector",
+  "module",
+  "net",
+  "os",
+  "path",
+  "perf_hooks",
+  "process",
+  "punycode",
+  "querystring",
+  "readline",
+  "repl",
+  "stream",
+  "string_decoder",
+  "sys",
+  "timers",
+  "tls",
+  "trace_events",
+  "tty",
+  "url",
+  "util",
+  "v8",
+  "vm",
+  "wasi",
+  "worker_threads",
+  "zlib",
+]);
+
+// Crate names reserved by the Rust toolchain
+const RESERVED_CRATES = new Set([
+  "alloc",
+  "core",
+  "proc-macro",
+  "std",
+  "test",
+]);
+
+// Dart reserved words can't be used as package names
+const DART_RESERVED = new Set([
+  "assert",
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "default",
+  "do",
+  "else",
+  "enum",
+  "extends",
+  "false",
+  "final",
+  "finally",
+  "for",
+  "if",
+  "in",
+  "is",
+  "new",
+  "null",
+  "rethrow",
+  "return",
+  "super",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "var",
+  "void",
+  "while",
+  "with",
+]);
+
+function invalid(reason: string): NameValidation {
+  return { valid: false, reason };
+}
+
+// npm: lowercase, URL-safe, max 214 chars, no leading . or _
+export function normalizeNpmName(name: string): NameValidation {
+  if (name.length > 214) {
+    return invalid("npm names are limited to 214 characters");
+  }
+  if (name !== name.toLowerCase()) {
+    return invalid(`npm names must be lowercase (try ${name.toLowerCase()})`);
+  }
+  if (/^[._]/.test(name)) return invalid("npm names can't start with . or _");
+  if (!/^[a-z0-9._~-]+$/.test(name)) {
+    return invalid("npm names may only contain a-z, 0-9, and - . _ ~");
+  }
+  if (NODE_BUILTINS.has(name)) {
+    return invalid(`"${name}" is a Node.js core module name`);
+  }
+  if (name === "node_modules" || name === "favicon.ico") {
+    return invalid(`"${name}" is blocked by npm`);
+  }
+  return { valid: true, name };
+}
+
+// npm org scopes follow the same character rules as package names
+export function normalizeNpmScope(name: string): NameValidation {
+  const result = normalizeNpmName(name);
+  if (!result.valid) return result;
+  if (name.includes(".") || name.includes("~")) {
+    return invalid("npm scopes may only contain a-z, 0-9, - and _");
+  }
+  return result;
+}
+
+// PyPI: PEP 508 names, compared after PEP 503 normalization
+// (Foo_Bar, foo-bar and foo.bar are the same project)
+export function normalizePypiName(name: string): NameValidation {
+  if (!/^([a-z0-9]|[a-z0-9][a-z0-9._-]*[a-z0-9])$/i.test(name)) {
+    return invalid(
+      "PyPI names must start and end with a letter or digit and only contain letters, digits, - _ .",
+    );
+  }
+  return { valid: true, name: name.replace(/[-_.]+/g, "-").toLowerCase() };
+}
+
+// crates.io: ASCII letter first, alphanumerics plus - and _, max 64 chars;
+// - and _ are treated as the same character
+export function normalizeCrateName(name: string): NameValidation {
+  if (name.length > 64) {
+    return invalid("crate names are limited to 64 characters");
+  }
+  if (!/^[a-z][a-z0-9_-]*$/i.test(name)) {
+    return invalid(
+      "crate names must start with a letter and only contain letters, digits, - and _",
+    );
+  }
+  const canonical = name.toLowerCase().replace(/_/g, "-");
+  if (RESERVED_CRATES.has(canonical)) {
+    return invalid(`"${name}" is reserved by the Rust toolchain`);
+  }
+  return { valid: true, name: canonical };
+}
+
+// NuGet: max 100 chars, word characters separated by . or -, case-insensitive
+export function normalizeNugetName(name: string): NameValidation {
+  if (name.length > 100) {
+    return invalid("NuGet IDs are limited to 100 characters");
+  }
+  if (!/^\w+([.-]\w+)*$/.test(name)) {
+    return invalid(
+      "NuGet IDs may only contain letters, digits, _ and single . or - separators",
+    );
+  }
+  return { valid: true, name: name.toLowerCase() };
+}
+
+// RubyGems: letters, digits, - _ . with at least one letter, no leading
+// separator
+export function normalizeGemName(name: string): NameValidation {
+  if (!/^[a-z0-9][a-z0-9._-]*$/i.test(name) || !/[a-z]/i.test(name)) {
+    return invalid(
+      "gem names must start with a letter or digit, contain a letter and only use letters, digits, - _ .",
+    );
+  }
+  return { valid: true, name };
+}
+
+// Maven: group and artifact IDs use letters, digits, - _ .
+export function normalizeMavenName(name: string): NameValidation {
+  if (!/^[a-z0-9][a-z0-9._-]*$/i.test(name)) {
+    return invalid("Maven IDs may only contain letters, digits, - _ .");
+  }
+  return { valid: true, name };
+}
+
+// CocoaPods: no whitespace, can't start with a period
+export function normalizePodName(name: string): NameValidation {
+  if (!/^[a-z0-9][a-z0-9._+-]*$/i.test(name)) {
+    return invalid(
+      "pod names must start with a letter or digit and only contain letters, digits, - _ + .",
+    );
+  }
+  return { valid: true, name };
+}
+
+// pub.dev: lowercase Dart identifiers, max 64 chars, no reserved words
+export function normalizePubName(name: string): NameValidation {
+  if (name.length > 64) {
+    return invalid("pub.dev names are limited to 64 characters");
+  }
+  if (!/^[a-z_][a-z0-9_]*$/.test(name)) {
+    const suggestion = name.toLowerCase().replace(/[-.]/g, "_");
+    return invalid(
+      `pub.dev names must be lowercase letters, digits and _ (try ${suggestion})`,
+    );
+  }
+  if (DART_RESERVED.has(name)) {
+    return invalid(`"${name}" is a Dart reserved word`);
+  }
+  return { valid: true, name };
+}
+
+// Container image names: lowercase alphanumerics with single . _ - separators
+export function normalizeDockerName(name: string): NameValidation {
+  if (name !== name.toLowerCase()) {
+    return invalid(`image names must be lowercase (try ${name.toLowerCase()})`);
+  }
+  if (!/^[a-z0-9]+([._-][a-z0-9]+)*$/.test(name)) {
+    return invalid(
+      "image names may only contain a-z, 0-9 and single . _ - separators",
+    );
+  }
+  return { valid: true, name };
+}
+
+// Docker Hub namespaces (Docker IDs): 4-30 lowercase letters and digits
+export function normalizeDockerNamespace(name: string): NameValidation {
+  const id = name.toLowerCase();
+  if (!/^[a-z0-9]{4,30}$/.test(id)) {
+    return invalid("Docker IDs are 4-30 lowercase letters and digits");
+  }
+  return { valid: true, name: id };
+}
+
+// Command names: anything a shell can run without quoting or a path
+export function normalizeCommandName(name: string): NameValidation {
+  if (!/^[a-z0-9_+][a-z0-9._+-]*$/i.test(name)) {
+    return invalid(
+      "command names may only contain letters, digits and . _ + - (not leading - or .)",
+    );
+  }
+  return { valid: true, name };
+}
+
+// Bluesky: the handle is a subdomain of bsky.social, 3-18 characters
+export function normalizeBlueskyHandle(name: string): NameValidation {
+  const label = name.toLowerCase();
+  if (!/^[a-z0-9]([a-z0-9-]{1,16}[a-z0-9])$/.test(label)) {
+    return invalid(
+      "Bluesky handles are 3-18 letters, digits and inner hyphens",
+    );
+  }
+  return { valid: true, name: label };
+}
+
+// Mastodon: letters, digits and _, max 30 chars, case-insensitive
+export function normalizeMastodonName(name: string): NameValidation {
+  if (!/^[a-z0-9_]{1,30}$/i.test(name)) {
+    return invalid("Mastodon usernames allow up to 30 letters, digits and _");
+  }
+  return { valid: true, name: name.toLowerCase() };
+}
+
+// Reddit: 3-21 letters, digits and _, not starting with _, case-insensitive
+export function normalizeSubredditName(name: string): NameValidation {
+  if (!/^[a-z0-9][a-z0-9_]{2,20}$/i.test(name)) {
+    return invalid(
+      "subreddit names are 3-21 letters, digits and _ (not starting with _)",
+    );
+  }
+  return { valid: true, name: name.toLowerCase() };
+}
+
+// X/Twitter: 4-15 letters, digits and _, can't contain "twitter" or "admin"
+export function normalizeXHandle(name: string): NameValidation {
+  const handle = name.toLowerCase();
+  if (!/^[a-z0-9_]{4,15}$/.test(handle)) {
+    return invalid("X handles are 4-15 letters, digits and _");
+  }
+  if (handle.includes("twitter") || handle.includes("admin")) {
+    return invalid('X handles can\'t contain "twitter" or "admin"');
+  }
+  return { valid: true, name: handle };
+}
+
+// GitHub users/orgs: max 39 chars, alphanumerics and single inner hyphens
+export function normalizeGithubOwner(name: string): NameValidation {
+  if (!/^[a-z0-9](?:[a-z0-9]|-(?=[a-z0-9])){0,38}$/i.test(name)) {
+    return invalid(
+      "GitHub account names allow up to 39 letters, digits and single inner hyphens",
+    );
+  }
+  return { valid: true, name: name.toLowerCase() };
+}
+
+// GitHub repositories: max 100 chars of letters, digits, - _ .
+export function normalizeGithubRepo(name: string): NameValidation {
+  if (!/^[a-z0-9._-]{1,100}$/i.test(name) || name === "." || name === "..") {
+    return invalid(
+      "GitHub repository names allow up to 100 letters, digits, - _ .",
+    );
+  }
+  return { valid: true, name };
+}
+
+// Gitea/Forgejo and GitLab users/orgs: letters, digits and . _ - (not at
+// either end), max 40 chars, case-insensitive
+export function normalizeForgeNamespace(name: string): NameValidation {
+  if (!/^[a-z0-9](?:[a-z0-9._-]{0,38}[a-z0-9])?$/i.test(name)) {
+    return invalid(
+      "forge account names allow up to 40 letters, digits and inner . _ -",
+    );
+  }
+  return { valid: true, name: name.toLowerCase() };
+}
+
+// SourceHut: lowercase letters, digits, _ and -, starting with a letter or _
+export function normalizeSourcehutUser(name: string): NameValidation {
+  const user = name.toLowerCase();
+  if (!/^[a-z_][a-z0-9_-]{1,29}$/.test(user)) {
+    return invalid(
+      "SourceHut usernames are 2-30 letters, digits, _ and -, starting with a letter",
+    );
+  }
+  return { valid: true, name: user };
+}
+
+// Bitbucket workspace IDs: lowercase letters, digits, - and _
+export function normalizeBitbucketWorkspace(name: string): NameValidation {
+  const workspace = name.toLowerCase();
+  if (!/^[a-z0-9_-]{1,62}$/.test(workspace)) {
+    return invalid(
+      "Bitbucket workspace IDs may only contain letters, digits, - and _",
+    );
+  }
+  return { valid: true, name: workspace };
+}
+
+// Domain labels: letters, digits and inner hyphens, max 63 chars, no "xx--"
+// prefix (reserved for IDNs)
+export function normalizeDomainLabel(name: string): NameValidation {
+  const label = name.toLowerCase();
+  if (!/^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/.test(label)) {
+    return invalid(
+      "domain labels allow up to 63 letters, digits and inner hyphens",
+    );
+  }
+  if (label.slice(2, 4) === "--") {
+    return invalid("domain labels can't have -- in positions 3 and 4");
+  }
+  return { valid: true, name: label };
+}
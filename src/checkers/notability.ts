@@ -0,0 +1,98 @@
+import type { Checker, CheckResult, NotableEntry } from "../types";
+import { fetchWithTimeout, createErrorResult } from "./base";
+
+// Hits listed per source
+const MAX_HITS = 5;
+
+// Compare titles ignoring case, punctuation and a disambiguation suffix
+// ("Rust (programming language)" = "rust")
+function titleKey(title: string): string {
+  return title
+    .replace(/\s*\([^)]*\)\s*$/, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+// Wikipedia page titles, with their short descriptions
+async function searchWikipedia(name: string): Promise<NotableEntry[]> {
+  const response = await fetchWithTimeout(
+    `https://en.wikipedia.org/w/rest.php/v1/search/title?q=${encodeURIComponent(name)}&limit=${MAX_HITS}`,
+  );
+  if (!response.ok) {
+    throw new Error(`Wikipedia API error: ${response.status}`);
+  }
+
+  const data = (await response.json()) as {
+    pages: Array<{ key: string; title: string; description?: string | null }>;
+  };
+  const key = titleKey(name);
+  return data.pages.map((page) => ({
+    title: page.title,
+    description: page.description ?? undefined,
+    source: "wikipedia",
+    url: `https://en.wikipedia.org/wiki/${encodeURIComponent(page.key)}`,
+    exact: titleKey(page.title) === key,
+  }));
+}
+
+// Wikidata entities whose label or alias matches
+async function searchWikidata(name: string): Promise<NotableEntry[]> {
+  const response = await fetchWithTimeout(
+    `https://www.wikidata.org/w/api.php?action=wbsearchentities&search=${encodeURIComponent(name)}&language=en&uselang=en&type=item&limit=${MAX_HITS}&format=json`,
+  );
+  if (!response.ok) {
+    throw new Error(`Wikidata API error: ${response.status}`);
+  }
+
+  const data = (await response.json()) as {
+    search: Array<{
+      id: string;
+      label?: string;
+      description?: string;
+      match: { text: string };
+    }>;
+  };
+  const key = titleKey(name);
+  return data.search.map((entity) => ({
+    title: entity.label ?? entity.match.text,
+    description: entity.description,
+    source: "wikidata",
+    url: `https://www.wikidata.org/wiki/${entity.id}`,
+    exact: titleKey(entity.match.text) === key,
+  }));
+}
+
+// Existing Wikipedia articles and Wikidata entities for the name. A signal
+// like github-uniqueness: it never makes a name unavailable, but exact hits
+// ("software company", "JavaScript library") mean it is hard to find in search.
+export const notabilityChecker: Checker = {
+  name: "notability",
+  category: "uniqueness",
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const [wikipedia, wikidata] = await Promise.all([
+        searchWikipedia(name),
+        searchWikidata(name),
+      ]);
+      // Exact hits first, keeping each source's ranking
+      const notable = [...wikipedia, ...wikidata].sort(
+        (a, b) => Number(b.exact) - Number(a.exact),
+      );
+
+      return {
+        name,
+        platform: "notability",
+        status: "available",
+        available: true,
+        notable,
+        url: `https://en.wikipedia.org/w/index.php?search=${encodeURIComponent(name)}`,
+      };
+    } catch (error) {
+      return createErrorResult(
+        "notability",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
@@ -1,21 +1,48 @@
 import type { Checker, CheckResult } from "../types";
-import { fetchWithTimeout, createErrorResult } from "./base";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createResponseResult,
+  createInvalidResult,
+} from "./base";
+import { normalizeNpmName, normalizeNpmScope } from "./normalize";
 
 export const npmChecker: Checker = {
   name: "npm",
   category: "package",
+  normalize: normalizeNpmName,
   async check(name: string): Promise<CheckResult> {
     try {
       const response = await fetchWithTimeout(
         `https://registry.npmjs.org/${encodeURIComponent(name)}`
       );
-      const available = response.status === 404;
-      return {
+      const result = createResponseResult(
+        "npm",
         name,
-        platform: "npm",
-        available,
-        url: available ? undefined : `https://www.npmjs.com/package/${name}`,
-      };
+        response,
+        `https://www.npmjs.com/package/${name}`
+      );
+
+      // npm rejects names that only differ from an existing package by
+      // punctuation (foo-bar vs foobar), so look up the squashed form too
+      const squashed = name.replace(/[-._~]/g, "");
+      if (result.status === "available" && squashed && squashed !== name) {
+        const similar = await fetchWithTimeout(
+          `https://registry.npmjs.org/${encodeURIComponent(squashed)}`
+        );
+        if (similar.ok) {
+          return {
+            ...createInvalidResult(
+              "npm",
+              name,
+              `too similar to existing package "${squashed}"`
+            ),
+            url: `https://www.npmjs.com/package/${squashed}`,
+          };
+        }
+      }
+
+      return result;
     } catch (error) {
       return createErrorResult(
         "npm",
@@ -29,18 +56,18 @@ export const npmChecker: Checker = {
 export const npmOrgChecker: Checker = {
   name: "npm-org",
   category: "package",
+  normalize: normalizeNpmScope,
   async check(name: string): Promise<CheckResult> {
     try {
       const response = await fetchWithTimeout(
         `https://registry.npmjs.org/-/org/${encodeURIComponent(name)}`
       );
-      const available = response.status === 404;
-      return {
+      return createResponseResult(
+        "npm-org",
         name,
-        platform: "npm-org",
-        available,
-        url: available ? undefined : `https://www.npmjs.com/org/${name}`,
-      };
+        response,
+        `https://www.npmjs.com/org/${name}`
+      );
     } catch (error) {
       return createErrorResult(
         "npm-org",
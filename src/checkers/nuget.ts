@@ -1,21 +1,26 @@
 import type { Checker, CheckResult } from "../types";
-import { fetchWithTimeout, createErrorResult } from "./base";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createResponseResult,
+} from "./base";
+import { normalizeNugetName } from "./normalize";
 
 export const nugetChecker: Checker = {
   name: "nuget",
   category: "package",
+  normalize: normalizeNugetName,
   async check(name: string): Promise<CheckResult> {
     try {
       const response = await fetchWithTimeout(
         `https://api.nuget.org/v3/registration5-semver1/${encodeURIComponent(name.toLowerCase())}/index.json`
       );
-      const available = response.status === 404;
-      return {
+      return createResponseResult(
+        "nuget",
         name,
-        platform: "nuget",
-        available,
-        url: available ? undefined : `https://www.nuget.org/packages/${name}`,
-      };
+        response,
+        `https://www.nuget.org/packages/${name}`
+      );
     } catch (error) {
       return createErrorResult(
         "nuget",
@@ -1,5 +1,9 @@
 import type { Checker, CheckResult } from "../types";
-import { fetchWithTimeout, createErrorResult } from "./base";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createRateLimitedResult,
+} from "./base";
 
 export const packagistChecker: Checker = {
   name: "packagist",
@@ -10,6 +14,16 @@ export const packagistChecker: Checker = {
       const response = await fetchWithTimeout(
         `https://packagist.org/search.json?q=${encodeURIComponent(name)}`
       );
+      if (response.status === 429) {
+        return createRateLimitedResult("packagist", name);
+      }
+      if (!response.ok) {
+        return createErrorResult(
+          "packagist",
+          name,
+          `Packagist returned ${response.status}`
+        );
+      }
       const json = await response.json();
       // Check if any package has an exact name match
       const exactMatch = json.results?.some(
@@ -21,6 +35,7 @@ export const packagistChecker: Checker = {
       return {
         name,
         platform: "packagist",
+        status: available ? "available" : "taken",
         available,
         url: available
           ? undefined
@@ -0,0 +1,160 @@
+// Phonetic keys for matching names that sound alike
+
+const SOUNDEX_CODES: Record<string, string> = {
+  B: "1",
+  F: "1",
+  P: "1",
+  V: "1",
+  C: "2",
+  G: "2",
+  J: "2",
+  K: "2",
+  Q: "2",
+  S: "2",
+  X: "2",
+  Z: "2",
+  D: "3",
+  T: "3",
+  L: "4",
+  M: "5",
+  N: "5",
+  R: "6",
+};
+
+// American Soundex: first letter plus three digits ("Robert" -> "R163")
+export function soundex(word: string): string {
+  const letters = word.toUpperCase().replace(/[^A-Z]/g, "");
+  if (!letters) return "";
+
+  let code = letters[0]!;
+  let previous = SOUNDEX_CODES[code] ?? "";
+  for (const letter of letters.slice(1)) {
+    const digit = SOUNDEX_CODES[letter] ?? "";
+    if (digit && digit !== previous) code += digit;
+    // H and W don't separate letters with the same code, vowels do
+    if (letter !== "H" && letter !== "W") previous = digit;
+    if (code.length === 4) break;
+  }
+  return code.padEnd(4, "0");
+}
+
+const VOWELS = new Set(["A", "E", "I", "O", "U"]);
+
+function isVowel(letter: string | undefined): boolean {
+  return letter !== undefined && VOWELS.has(letter);
+}
+
+// Original Metaphone (Lawrence Philips, 1990), "0" stands for "th"
+export function metaphone(word: string): string {
+  let w = word.toUpperCase().replace(/[^A-Z]/g, "");
+  if (!w) return "";
+
+  // Drop duplicate adjacent letters, except C
+  w = w.replace(/([A-BD-Z])\1+/g, "$1");
+
+  // Initial letter exceptions
+  if (/^(KN|GN|PN|AE|WR)/.test(w)) w = w.slice(1);
+  if (w[0] === "X") w = `S${w.slice(1)}`;
+  if (w.startsWith("WH")) w = `W${w.slice(2)}`;
+
+  let key = "";
+  for (let i = 0; i < w.length; i++) {
+    const c = w[i]!;
+    const prev = w[i - 1];
+    const next = w[i + 1];
+    const after = w.slice(i + 1, i + 3);
+
+    switch (c) {
+      case "A":
+      case "E":
+      case "I":
+      case "O":
+      case "U":
+        if (i === 0) key += c;
+        break;
+      case "B":
+        // Silent in a trailing "MB" (dumb)
+        if (!(prev === "M" && i === w.length - 1)) key += "B";
+        break;
+      case "C":
+        if (after === "IA" || next === "H") {
+          key += prev === "S" && next === "H" ? "K" : "X";
+          if (next === "H") i++;
+        } else if (next === "I" || next === "E" || next === "Y") {
+          if (prev !== "S") key += "S";
+        } else {
+          key += "K";
+        }
+        break;
+      case "D":
+        if (next === "G" && "EIY".includes(w[i + 2] ?? "-")) {
+          key += "J";
+          i++;
+        } else {
+          key += "T";
+        }
+        break;
+      case "G":
+        if (next === "H" && i + 2 < w.length && !isVowel(w[i + 2])) break;
+        if (next === "N" && (i + 2 === w.length || w.slice(i + 1) === "NED")) {
+          break;
+        }
+        if ("EIY".includes(next ?? "-") && prev !== "G") {
+          key += "J";
+        } else {
+          key += "K";
+        }
+        break;
+      case "H":
+        if (isVowel(next) && !"CSPTG".includes(prev ?? "-")) key += "H";
+        break;
+      case "K":
+        if (prev !== "C") key += "K";
+        break;
+      case "P":
+        key += next === "H" ? "F" : "P";
+        break;
+      case "Q":
+        key += "K";
+        break;
+      case "S":
+        if (next === "H") {
+          key += "X";
+          i++;
+        } else if (after === "IO" || after === "IA") {
+          key += "X";
+        } else {
+          key += "S";
+        }
+        break;
+      case "T":
+        if (after === "IO" || after === "IA") {
+          key += "X";
+        } else if (next === "H") {
+          key += "0";
+          i++;
+        } else if (!(next === "C" && w[i + 2] === "H")) {
+          key += "T";
+        }
+        break;
+      case "V":
+        key += "F";
+        break;
+      case "W":
+      case "Y":
+        if (isVowel(next)) key += c;
+        break;
+      case "X":
+        key += "KS";
+        break;
+      case "Z":
+        key += "S";
+        break;
+      default:
+        // F, J, L, M, N, R
+        key += c;
+    }
+  }
+
+  return key;
+}
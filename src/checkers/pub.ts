@@ -0,0 +1,32 @@
+import type { Checker, CheckResult } from "../types";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createResponseResult,
+} from "./base";
+import { normalizePubName } from "./normalize";
+
+export const pubChecker: Checker = {
+  name: "pub.dev",
+  category: "package",
+  normalize: normalizePubName,
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const response = await fetchWithTimeout(
+        `https://pub.dev/api/packages/${encodeURIComponent(name)}`,
+      );
+      return createResponseResult(
+        "pub.dev",
+        name,
+        response,
+        `https://pub.dev/packages/${name}`,
+      );
+    } catch (error) {
+      return createErrorResult(
+        "pub.dev",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
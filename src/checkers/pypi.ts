@@ -1,21 +1,26 @@
 import type { Checker, CheckResult } from "../types";
-import { fetchWithTimeout, createErrorResult } from "./base";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createResponseResult,
+} from "./base";
+import { normalizePypiName } from "./normalize";
 
 export const pypiChecker: Checker = {
   name: "pypi",
   category: "package",
+  normalize: normalizePypiName,
   async check(name: string): Promise<CheckResult> {
     try {
       const response = await fetchWithTimeout(
         `https://pypi.org/pypi/${encodeURIComponent(name)}/json`
       );
-      const available = response.status === 404;
-      return {
+      return createResponseResult(
+        "pypi",
         name,
-        platform: "pypi",
-        available,
-        url: available ? undefined : `https://pypi.org/project/${name}/`,
-      };
+        response,
+        `https://pypi.org/project/${name}/`
+      );
     } catch (error) {
       return createErrorResult(
         "pypi",
@@ -0,0 +1,32 @@
+import type { Checker, CheckResult } from "../types";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createResponseResult,
+} from "./base";
+import { normalizeGemName } from "./normalize";
+
+export const rubygemsChecker: Checker = {
+  name: "rubygems",
+  category: "package",
+  normalize: normalizeGemName,
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const response = await fetchWithTimeout(
+        `https://rubygems.org/api/v1/gems/${encodeURIComponent(name)}.json`,
+      );
+      return createResponseResult(
+        "rubygems",
+        name,
+        response,
+        `https://rubygems.org/gems/${name}`,
+      );
+    } catch (error) {
+      return createErrorResult(
+        "rubygems",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
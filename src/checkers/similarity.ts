@@ -0,0 +1,422 @@
+import type { Checker, CheckResult, SimilarPackage } from "../types";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createRateLimitedResult,
+} from "./base";
+import { normalizeCrateName, normalizePypiName } from "./normalize";
+
+// Look-alikes only count as a conflict once they are this popular
+// (approximate monthly downloads)
+const POPULAR_DOWNLOADS = 1000;
+
+// Cap on direct lookups for registries without a search API
+const MAX_VARIANT_LOOKUPS = 40;
+
+// Max conflicts reported per registry
+const MAX_CONFLICTS = 5;
+
+// Characters (and pairs) that read alike in most fonts
+const HOMOGLYPHS: Array<[string, string]> = [
+  ["0", "o"],
+  ["1", "l"],
+  ["i", "l"],
+  ["rn", "m"],
+  ["vv", "w"],
+  ["5", "s"],
+];
+
+function stripSeparators(name: string): string {
+  return name.toLowerCase().replace(/[-_.]/g, "");
+}
+
+// Collapse a name to how it looks: no separators, homoglyphs folded
+export function confusableSkeleton(name: string): string {
+  let skeleton = stripSeparators(name);
+  for (const [a, b] of HOMOGLYPHS) {
+    skeleton = skeleton.split(a).join(b);
+  }
+  return skeleton;
+}
+
+// Damerau-Levenshtein distance (optimal string alignment variant)
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, () =>
+    new Array<number>(cols).fill(0),
+  );
+
+  for (let i = 0; i < rows; i++) d[i]![0] = i;
+  for (let j = 0; j < cols; j++) d[0]![j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        d[i - 1]![j]! + 1,
+        d[i]![j - 1]! + 1,
+        d[i - 1]![j - 1]! + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, d[i - 2]![j - 2]! + 1);
+      }
+      d[i]![j] = value;
+    }
+  }
+
+  return d[a.length]![b.length]!;
+}
+
+// Short names get fewer allowed typos, otherwise everything is a neighbour
+function maxTypoDistance(name: string): number {
+  const length = stripSeparators(name).length;
+  if (length <= 3) return 0;
+  return length > 8 ? 2 : 1;
+}
+
+// How (if at all) an existing package name is confusable with ours
+export function classifySimilarity(
+  name: string,
+  other: string,
+): Pick<SimilarPackage, "reason" | "distance"> | null {
+  if (name.toLowerCase() === other.toLowerCase()) return null;
+
+  const a = stripSeparators(name);
+  const b = stripSeparators(other);
+  const distance = editDistance(a, b);
+
+  if (a === b) return { reason: "separator", distance: 0 };
+  if (confusableSkeleton(name) === confusableSkeleton(other)) {
+    return { reason: "homoglyph", distance };
+  }
+  if (distance <= maxTypoDistance(name)) return { reason: "typo", distance };
+  return null;
+}
+
+// Typo and look-alike spellings of a name, for registries that can only be
+// probed one name at a time
+export function confusableVariants(name: string): string[] {
+  const lower = name.toLowerCase();
+  const variants = new Set<string>();
+
+  // Separator variants
+  const stripped = stripSeparators(lower);
+  variants.add(stripped);
+  for (const sep of ["-", "_", "."]) {
+    variants.add(lower.replace(/[-_.]/g, sep));
+  }
+
+  // Homoglyph swaps, one at a time in both directions
+  for (const [a, b] of HOMOGLYPHS) {
+    for (const [from, to] of [
+      [a, b],
+      [b, a],
+    ] as const) {
+      let index = lower.indexOf(from);
+      while (index !== -1) {
+        variants.add(
+          lower.slice(0, index) + to + lower.slice(index + from.length),
+        );
+        index = lower.indexOf(from, index + 1);
+      }
+    }
+  }
+
+  // Adjacent transpositions, single deletions and doubled letters
+  for (let i = 0; i < lower.length; i++) {
+    if (i + 1 < lower.length) {
+      variants.add(
+        lower.slice(0, i) + lower[i + 1] + lower[i] + lower.slice(i + 2),
+      );
+    }
+    if (lower.length > 3) {
+      variants.add(lower.slice(0, i) + lower.slice(i + 1));
+    }
+    variants.add(lower.slice(0, i + 1) + lower[i] + lower.slice(i + 1));
+  }
+
+  variants.delete(lower);
+  return [...variants].filter((v) => v.length > 0);
+}
+
+function formatConflicts(
+  platform: string,
+  name: string,
+  conflicts: SimilarPackage[],
+): CheckResult {
+  const sorted = conflicts
+    .sort(
+      (a, b) =>
+        (b.downloads ?? 0) - (a.downloads ?? 0) || a.distance - b.distance,
+    )
+    .slice(0, MAX_CONFLICTS);
+
+  // Unknown download counts are treated as popular to stay on the safe side
+  const popular = sorted.filter(
+    (c) => c.downloads === undefined || c.downloads >= POPULAR_DOWNLOADS,
+  );
+
+  return {
+    name,
+    platform,
+    status: popular.length > 0 ? "taken" : "available",
+    available: popular.length === 0,
+    url: popular[0]?.url,
+    conflicts: sorted,
+  };
+}
+
+async function getNpmDownloads(
+  names: string[],
+): Promise<Record<string, number>> {
+  // The bulk endpoint only supports unscoped packages
+  const unscoped = names.filter((n) => !n.startsWith("@"));
+  if (unscoped.length === 0) return {};
+
+  try {
+    const response = await fetchWithTimeout(
+      `https://api.npmjs.org/downloads/point/last-month/${unscoped.map(encodeURIComponent).join(",")}`,
+    );
+    if (!response.ok) return {};
+
+    // A single package returns the point directly, several return a map
+    if (unscoped.length === 1) {
+      const point = (await response.json()) as { downloads?: number };
+      return { [unscoped[0]!]: point.downloads ?? 0 };
+    }
+    const points = (await response.json()) as Record<
+      string,
+      { downloads: number } | null
+    >;
+    const downloads: Record<string, number> = {};
+    for (const [pkg, point] of Object.entries(points)) {
+      if (point) downloads[pkg] = point.downloads;
+    }
+    return downloads;
+  } catch {
+    return {};
+  }
+}
+
+// Result for a variant lookup that neither found the package nor got a
+// 404: the check is incomplete, so it can't report "no conflicts"
+function failedLookupResult(
+  platform: string,
+  name: string,
+  response: Response,
+): CheckResult {
+  if (response.status === 429) {
+    return createRateLimitedResult(platform, name);
+  }
+  return createErrorResult(
+    platform,
+    name,
+    `Variant lookup returned ${response.status}`,
+  );
+}
+
+export const npmSimilarityChecker: Checker = {
+  name: "npm-similar",
+  category: "similarity",
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const response = await fetchWithTimeout(
+        `https://registry.npmjs.org/-/v1/search?text=${encodeURIComponent(name)}&size=100`,
+      );
+      if (!response.ok) {
+        return createErrorResult(
+          "npm-similar",
+          name,
+          `npm search returned ${response.status}`,
+        );
+      }
+
+      const data = (await response.json()) as {
+        objects: Array<{ package: { name: string } }>;
+      };
+
+      const candidates = new Set(data.objects.map((o) => o.package.name));
+
+      // Search ranks by relevance, so also probe the separator spellings
+      // npm itself treats as too similar
+      const separatorVariants = confusableVariants(name).filter(
+        (v) => stripSeparators(v) === stripSeparators(name),
+      );
+      const probes = await Promise.all(
+        separatorVariants.map(async (variant) => {
+          const res = await fetchWithTimeout(
+            `https://registry.npmjs.org/${encodeURIComponent(variant)}`,
+            { method: "HEAD" },
+          );
+          if (res.status === 404) return null;
+          return res.ok ? variant : res;
+        }),
+      );
+      const failed = probes.find((p) => p instanceof Response);
+      if (failed) return failedLookupResult("npm-similar", name, failed);
+      for (const variant of probes) {
+        if (typeof variant === "string") candidates.add(variant);
+      }
+
+      const conflicts: SimilarPackage[] = [];
+      for (const candidate of candidates) {
+        const similarity = classifySimilarity(name, candidate);
+        if (similarity) {
+          conflicts.push({
+            name: candidate,
+            ...similarity,
+            url: `https://www.npmjs.com/package/${candidate}`,
+          });
+        }
+      }
+
+      const downloads = await getNpmDownloads(conflicts.map((c) => c.name));
+      for (const conflict of conflicts) {
+        conflict.downloads = downloads[conflict.name];
+      }
+
+      return formatConflicts("npm-similar", name, conflicts);
+    } catch (error) {
+      return createErrorResult(
+        "npm-similar",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
+
+async function getPypiDownloads(name: string): Promise<number | undefined> {
+  try {
+    const response = await fetchWithTimeout(
+      `https://pypistats.org/api/packages/${encodeURIComponent(name)}/recent`,
+    );
+    if (!response.ok) return undefined;
+    const data = (await response.json()) as { data?: { last_month?: number } };
+    return data.data?.last_month;
+  } catch {
+    return undefined;
+  }
+}
+
+export const pypiSimilarityChecker: Checker = {
+  name: "pypi-similar",
+  category: "similarity",
+  async check(name: string): Promise<CheckResult> {
+    try {
+      // PyPI has no search API, so probe likely typo spellings directly.
+      // PEP 503 folds separators, so dedupe on the normalized form.
+      const ownName = normalizePypiName(name);
+      const seen = new Set<string>(ownName.valid ? [ownName.name] : []);
+      const variants: string[] = [];
+      for (const variant of confusableVariants(name)) {
+        const normalized = normalizePypiName(variant);
+        if (!normalized.valid || seen.has(normalized.name)) continue;
+        seen.add(normalized.name);
+        variants.push(normalized.name);
+      }
+
+      const existing = await Promise.all(
+        variants.slice(0, MAX_VARIANT_LOOKUPS).map(async (variant) => {
+          const response = await fetchWithTimeout(
+            `https://pypi.org/pypi/${encodeURIComponent(variant)}/json`,
+          );
+          if (response.status === 404) return null;
+          if (!response.ok) return response;
+          const data = (await response.json()) as { info: { name: string } };
+          return data.info.name;
+        }),
+      );
+      const failed = existing.find((e) => e instanceof Response);
+      if (failed) return failedLookupResult("pypi-similar", name, failed);
+
+      const conflicts: SimilarPackage[] = [];
+      for (const candidate of existing) {
+        if (typeof candidate !== "string") continue;
+        const similarity = classifySimilarity(name, candidate);
+        if (similarity) {
+          conflicts.push({
+            name: candidate,
+            ...similarity,
+            url: `https://pypi.org/project/${candidate}/`,
+          });
+        }
+      }
+
+      const downloads = await Promise.all(
+        conflicts.map((c) => getPypiDownloads(c.name)),
+      );
+      conflicts.forEach((conflict, i) => {
+        conflict.downloads = downloads[i];
+      });
+
+      return formatConflicts("pypi-similar", name, conflicts);
+    } catch (error) {
+      return createErrorResult(
+        "pypi-similar",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
+
+export const cratesSimilarityChecker: Checker = {
+  name: "crates-similar",
+  category: "similarity",
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const response = await fetchWithTimeout(
+        `https://crates.io/api/v1/crates?q=${encodeURIComponent(name)}&per_page=100`,
+      );
+      if (!response.ok) {
+        return createErrorResult(
+          "crates-similar",
+          name,
+          `crates.io search returned ${response.status}`,
+        );
+      }
+
+      const data = (await response.json()) as {
+        crates: Array<{ name: string; recent_downloads: number | null }>;
+      };
+
+      // crates.io treats - and _ as the same name, so those aren't conflicts
+      const ownName = normalizeCrateName(name);
+      const conflicts: SimilarPackage[] = [];
+      for (const crate of data.crates) {
+        const normalized = normalizeCrateName(crate.name);
+        if (
+          ownName.valid &&
+          normalized.valid &&
+          ownName.name === normalized.name
+        ) {
+          continue;
+        }
+
+        const similarity = classifySimilarity(name, crate.name);
+        if (similarity) {
+          conflicts.push({
+            name: crate.name,
+            ...similarity,
+            // recent_downloads covers the last 90 days
+            downloads:
+              crate.recent_downloads !== null
+                ? Math.round(crate.recent_downloads / 3)
+                : undefined,
+            url: `https://crates.io/crates/${crate.name}`,
+          });
+        }
+      }
+
+      return formatConflicts("crates-similar", name, conflicts);
+    } catch (error) {
+      return createErrorResult(
+        "crates-similar",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
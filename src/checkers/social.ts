@@ -0,0 +1,269 @@
+import type { Checker, CheckResult, VariantResult } from "../types";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createManualResult,
+  createRateLimitedResult,
+  statusFromResponse,
+} from "./base";
+import {
+  normalizeBlueskyHandle,
+  normalizeMastodonName,
+  normalizeSubredditName,
+  normalizeXHandle,
+} from "./normalize";
+
+// Instances checked when config/checkers.yaml doesn't list its own
+export const DEFAULT_MASTODON_INSTANCES = [
+  "mastodon.social",
+  "fosstodon.org",
+  "hachyderm.io",
+];
+
+// Bluesky: does name.bsky.social resolve to an account (DID)?
+export const blueskyChecker: Checker = {
+  name: "bluesky",
+  category: "social",
+  normalize: normalizeBlueskyHandle,
+  async check(name: string): Promise<CheckResult> {
+    const handle = `${name}.bsky.social`;
+    try {
+      const response = await fetchWithTimeout(
+        `https://public.api.bsky.app/xrpc/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(handle)}`,
+      );
+      if (response.status === 429) {
+        return createRateLimitedResult("bluesky", name);
+      }
+
+      // Unresolvable handles come back as 400 InvalidRequest
+      if (response.status === 400) {
+        const data = (await response.json()) as { error?: string };
+        if (data.error === "InvalidRequest") {
+          return {
+            name,
+            platform: "bluesky",
+            status: "available",
+            available: true,
+          };
+        }
+      }
+      if (!response.ok) {
+        return createErrorResult(
+          "bluesky",
+          name,
+          `Unexpected response: HTTP ${response.status}`,
+        );
+      }
+
+      return {
+        name,
+        platform: "bluesky",
+        status: "taken",
+        available: false,
+        url: `https://bsky.app/profile/${handle}`,
+      };
+    } catch (error) {
+      return createErrorResult(
+        "bluesky",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
+
+// Mastodon: WebFinger lookup of @name on each instance. Available when the
+// account is free on at least one instance, with per-instance variants.
+export function createMastodonChecker(instances: string[]): Checker {
+  return {
+    name: "mastodon",
+    category: "social",
+    normalize: normalizeMastodonName,
+    async check(name: string): Promise<CheckResult> {
+      try {
+        const variants: VariantResult[] = await Promise.all(
+          instances.map(async (instance) => {
+            const account = `${name}@${instance}`;
+            try {
+              const response = await fetchWithTimeout(
+                `https://${instance}/.well-known/webfinger?resource=${encodeURIComponent(`acct:${account}`)}`,
+              );
+              const status = statusFromResponse(response);
+              return {
+                variant: `@${account}`,
+                status,
+                available: status === "available",
+                url:
+                  status === "taken"
+                    ? `https://${instance}/@${name}`
+                    : undefined,
+              };
+            } catch {
+              return {
+                variant: `@${account}`,
+                status: "unknown" as const,
+                available: false,
+              };
+            }
+          }),
+        );
+
+        if (variants.some((v) => v.available)) {
+          return {
+            name,
+            platform: "mastodon",
+            status: "available",
+            available: true,
+            variants,
+          };
+        }
+        const allTaken =
+          variants.length > 0 && variants.every((v) => v.status === "taken");
+        if (allTaken) {
+          return {
+            name,
+            platform: "mastodon",
+            status: "taken",
+            available: false,
+            url: variants[0]?.url,
+            variants,
+          };
+        }
+        if (variants.some((v) => v.status === "rate-limited")) {
+          return { ...createRateLimitedResult("mastodon", name), variants };
+        }
+        return {
+          ...createErrorResult(
+            "mastodon",
+            name,
+            "Some instances could not be checked",
+          ),
+          variants,
+        };
+      } catch (error) {
+        return createErrorResult(
+          "mastodon",
+          name,
+          error instanceof Error ? error.message : "Unknown error",
+        );
+      }
+    },
+  };
+}
+
+interface RedditAbout {
+  kind?: string;
+  reason?: string;
+}
+
+// Reddit: r/name exists (public, private or banned names can't be reused)
+export const redditChecker: Checker = {
+  name: "reddit",
+  category: "social",
+  normalize: normalizeSubredditName,
+  async check(name: string): Promise<CheckResult> {
+    try {
+      const response = await fetchWithTimeout(
+        `https://www.reddit.com/r/${encodeURIComponent(name)}/about.json`,
+        { redirect: "manual" },
+      );
+      if (response.status === 429) {
+        return createRateLimitedResult("reddit", name);
+      }
+
+      const url = `https://www.reddit.com/r/${name}/`;
+      const taken: CheckResult = {
+        name,
+        platform: "reddit",
+        status: "taken",
+        available: false,
+        url,
+      };
+      const available: CheckResult = {
+        name,
+        platform: "reddit",
+        status: "available",
+        available: true,
+      };
+
+      // Unknown subreddits redirect to search or answer with a listing
+      if (response.status >= 300 && response.status < 400) return available;
+
+      const data = (await response.json().catch(() => ({}))) as RedditAbout;
+      if (response.ok) return data.kind === "t5" ? taken : available;
+      if (data.reason === "private" || data.reason === "banned") return taken;
+      if (response.status === 404) return available;
+
+      return createErrorResult(
+        "reddit",
+        name,
+        `Unexpected response: HTTP ${response.status}`,
+      );
+    } catch (error) {
+      return createErrorResult(
+        "reddit",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
+
+// X/Twitter: the API needs a bearer token (X_BEARER_TOKEN), otherwise fall
+// back to a manual check
+export const xChecker: Checker = {
+  name: "x",
+  category: "social",
+  normalize: normalizeXHandle,
+  async check(name: string): Promise<CheckResult> {
+    const profileUrl = `https://x.com/${name}`;
+    const token = process.env.X_BEARER_TOKEN;
+    if (!token) {
+      return createManualResult(
+        "x",
+        name,
+        profileUrl,
+        "Set X_BEARER_TOKEN to check automatically",
+      );
+    }
+
+    try {
+      const response = await fetchWithTimeout(
+        `https://api.x.com/2/users/by/username/${encodeURIComponent(name)}`,
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      if (response.status === 429) {
+        return createRateLimitedResult("x", name);
+      }
+      if (!response.ok) {
+        return createErrorResult(
+          "x",
+          name,
+          `Unexpected response: HTTP ${response.status}`,
+        );
+      }
+
+      // Unknown (and suspended) users come back as 200 with an errors array
+      const data = (await response.json()) as {
+        data?: { id: string };
+        errors?: Array<{ title: string }>;
+      };
+      const suspended = data.errors?.some((e) => e.title === "Forbidden");
+      const taken = Boolean(data.data) || Boolean(suspended);
+
+      return {
+        name,
+        platform: "x",
+        status: taken ? "taken" : "available",
+        available: !taken,
+        url: taken ? profileUrl : undefined,
+      };
+    } catch (error) {
+      return createErrorResult(
+        "x",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
@@ -1,22 +1,397 @@
-import type { Checker, CheckResult } from "../types";
-import { fetchWithTimeout, createErrorResult } from "./base";
+import type { Checker, CheckResult, TrademarkMatch } from "../types";
+import {
+  fetchWithTimeout,
+  createErrorResult,
+  createManualResult,
+  createRateLimitedResult,
+} from "./base";
+import { hasTrademarks, findTrademarkCandidates } from "../db";
+import { soundex, metaphone } from "./phonetic";
+import { editDistance } from "./similarity";
+
+// Nice classes covering software: 9 (downloadable software) and
+// 42 (software services / SaaS)
+const SOFTWARE_CLASSES = [9, 42];
+
+// Max marks listed per office
+const MAX_MARKS = 10;
+
+// Compare marks ignoring case, spacing and punctuation ("Foo-Bar" = "FOOBAR")
+export function markKey(mark: string): string {
+  return mark.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function isSoftwareMark(match: TrademarkMatch): boolean {
+  return match.classes.some((c) => SOFTWARE_CLASSES.includes(c));
+}
+
+// Taken when a live mark for the exact name covers a software class. Other
+// live software marks containing the name are listed as possible conflicts.
+function trademarkResult(
+  platform: string,
+  name: string,
+  matches: TrademarkMatch[],
+): CheckResult {
+  const key = markKey(name);
+  const relevant = matches
+    .filter(
+      (m) => m.live && isSoftwareMark(m) && markKey(m.mark).includes(key),
+    )
+    .sort(
+      (a, b) =>
+        Number(markKey(b.mark) === key) - Number(markKey(a.mark) === key),
+    )
+    .slice(0, MAX_MARKS);
+  const exact = relevant.find((m) => markKey(m.mark) === key);
+
+  return {
+    name,
+    platform,
+    status: exact ? "taken" : "available",
+    available: !exact,
+    url: exact?.url,
+    trademarks: relevant,
+  };
+}
+
+// USPTO case status page for a serial number
+function tsdrUrl(serial: string): string {
+  return `https://tsdr.uspto.gov/#caseNumber=${serial}&caseSearchType=US_APPLICATION&caseType=DEFAULT&searchType=statusSearch`;
+}
+
+interface UsptoHit {
+  _source: {
+    id?: string;
+    wordmark?: string;
+    alive?: boolean;
+    statusDescription?: string;
+    ownerName?: string | string[];
+    internationalClass?: string[];
+  };
+}
+
+// Why a USPTO response can't be trusted, or null if it has the expected
+// shape. The backend isn't a documented API, and a hit without a live/dead
+// flag must not read as "no live marks".
+function checkUsptoShape(data: unknown): string | null {
+  const hits = (data as { hits?: { hits?: unknown } } | null)?.hits?.hits;
+  if (!Array.isArray(hits)) return "no hits list";
+  for (const hit of hits as Array<Partial<UsptoHit> | null>) {
+    const source = hit?._source;
+    if (typeof source !== "object" || source === null) {
+      return "hit without _source";
+    }
+    if (typeof source.alive !== "boolean") return "hit without 'alive'";
+    if (typeof source.wordmark !== "string") return "hit without 'wordmark'";
+  }
+  return null;
+}
+
+// USPTO: the Elasticsearch backend behind tmsearch.uspto.gov. Returns the
+// response itself when the search fails, or an error message when the
+// response doesn't have the expected shape.
+async function searchUspto(
+  name: string,
+): Promise<TrademarkMatch[] | Response | string> {
+  const response = await fetchWithTimeout(
+    "https://tmsearch.uspto.gov/api-v1-0-0/tmsearch",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: { match: { WM: { query: name } } },
+        size: 100,
+      }),
+    },
+  );
+  if (!response.ok) return response;
+
+  const data: unknown = await response.json();
+  const problem = checkUsptoShape(data);
+  if (problem) return `Unexpected USPTO response (${problem})`;
+
+  const { hits } = (data as { hits: { hits: UsptoHit[] } }).hits;
+  return hits.map(({ _source: tm }) => {
+    const owner = Array.isArray(tm.ownerName) ? tm.ownerName[0] : tm.ownerName;
+    return {
+      mark: tm.wordmark!,
+      office: "USPTO",
+      status: tm.statusDescription ?? (tm.alive ? "LIVE" : "DEAD"),
+      live: tm.alive!,
+      owner,
+      // "IC 009" -> 9
+      classes: (tm.internationalClass ?? [])
+        .map((c) => parseInt(c.replace(/\D/g, ""), 10))
+        .filter((c) => !isNaN(c)),
+      url: tm.id ? tsdrUrl(tm.id) : undefined,
+    };
+  });
+}
 
-// USPTO TESS doesn't have a public API, so we provide a URL for manual checking
 export const usptoChecker: Checker = {
   name: "uspto",
   category: "trademark",
   async check(name: string): Promise<CheckResult> {
-    // TESS uses a session-based system and doesn't support direct linking well
-    // We provide the search URL but can't automate the check
-    const searchUrl = `https://tmsearch.uspto.gov/bin/showfield?f=toc&state=4809%3Anknlo5.1.1&p_search=searchss&p_L=50&BackReference=&p_plural=yes&p_s_PARA1=&p_taession=&p_PARA1=${encodeURIComponent(name)}&p_PARA2=live&p_op_ALL=AND&a_default=search&a_search=Submit+Query`;
+    const searchUrl = `https://tmsearch.uspto.gov/search/search-results?query=${encodeURIComponent(name)}`;
+    try {
+      const result = await searchUspto(name);
+      if (typeof result === "string") {
+        return createErrorResult("uspto", name, result);
+      }
+      if (result instanceof Response) {
+        if (result.status === 429) {
+          return createRateLimitedResult("uspto", name);
+        }
+        // The search backend isn't a stable public API, fall back to a link
+        return createManualResult(
+          "uspto",
+          name,
+          searchUrl,
+          `USPTO search returned ${result.status} - click URL to search manually`,
+        );
+      }
+      return trademarkResult("uspto", name, result);
+    } catch (error) {
+      return createErrorResult(
+        "uspto",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
 
-    return {
+// Statuses of EU trade marks that no longer block registration
+const EUIPO_DEAD_STATUSES = new Set([
+  "EXPIRED",
+  "WITHDRAWN",
+  "REFUSED",
+  "CANCELLED",
+  "SURRENDERED",
+]);
+
+let euipoToken: { value: string; expiresAt: number } | null = null;
+
+// OAuth client-credentials token for the EUIPO API portal
+async function getEuipoToken(
+  clientId: string,
+  clientSecret: string,
+): Promise<string> {
+  if (euipoToken && euipoToken.expiresAt > Date.now()) {
+    return euipoToken.value;
+  }
+
+  const response = await fetchWithTimeout(
+    "https://euipo.europa.eu/cas-server-webapp/oidc/accessToken",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "client_credentials",
+        client_id: clientId,
+        client_secret: clientSecret,
+        scope: "uid",
+      }),
+    },
+  );
+  if (!response.ok) {
+    throw new Error(`EUIPO token request returned ${response.status}`);
+  }
+
+  const data = (await response.json()) as {
+    access_token: string;
+    expires_in: number;
+  };
+  euipoToken = {
+    value: data.access_token,
+    // Renew a minute early
+    expiresAt: Date.now() + (data.expires_in - 60) * 1000,
+  };
+  return data.access_token;
+}
+
+interface EuipoTrademark {
+  applicationNumber: string;
+  status: string;
+  niceClasses?: number[];
+  wordMarkSpecification?: { verbalElement?: string };
+  applicants?: Array<{ name?: string }>;
+}
+
+// A quoted RSQL value, so names with spaces, quotes, commas, parentheses or
+// operators (";", "==") can't change the query
+function rsqlString(value: string): string {
+  return `"${value.replaceAll("\\", "\\\\").replaceAll('"', '\\"')}"`;
+}
+
+// EUIPO: the trademark search API (needs EUIPO_CLIENT_ID/EUIPO_CLIENT_SECRET
+// from dev.euipo.europa.eu)
+export const euipoChecker: Checker = {
+  name: "euipo",
+  category: "trademark",
+  async check(name: string): Promise<CheckResult> {
+    const searchUrl = `https://euipo.europa.eu/eSearch/#basic/1+1+1+1/100+100+100+100/${encodeURIComponent(name)}`;
+    const clientId = process.env.EUIPO_CLIENT_ID;
+    const clientSecret = process.env.EUIPO_CLIENT_SECRET;
+    if (!clientId || !clientSecret) {
+      return createManualResult(
+        "euipo",
+        name,
+        searchUrl,
+        "Set EUIPO_CLIENT_ID and EUIPO_CLIENT_SECRET to check automatically",
+      );
+    }
+
+    try {
+      const token = await getEuipoToken(clientId, clientSecret);
+      const query = `wordMarkSpecification.verbalElement==${rsqlString(`*${name}*`)} and niceClasses=in=(${SOFTWARE_CLASSES.join(",")})`;
+      const response = await fetchWithTimeout(
+        `https://api.euipo.europa.eu/trademark-search/trademarks?query=${encodeURIComponent(query)}&size=100`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "X-IBM-Client-Id": clientId,
+          },
+        },
+      );
+      if (response.status === 429) {
+        return createRateLimitedResult("euipo", name);
+      }
+      if (!response.ok) {
+        return createErrorResult(
+          "euipo",
+          name,
+          `EUIPO API returned ${response.status}`,
+        );
+      }
+
+      const data = (await response.json()) as {
+        trademarks: EuipoTrademark[];
+      };
+      const matches: TrademarkMatch[] = data.trademarks.map((tm) => ({
+        mark: tm.wordMarkSpecification?.verbalElement ?? "",
+        office: "EUIPO",
+        status: tm.status,
+        live: !EUIPO_DEAD_STATUSES.has(tm.status),
+        owner: tm.applicants?.[0]?.name,
+        classes: tm.niceClasses ?? [],
+        url: `https://euipo.europa.eu/eSearch/#details/trademarks/${tm.applicationNumber}`,
+      }));
+
+      return trademarkResult("euipo", name, matches);
+    } catch (error) {
+      return createErrorResult(
+        "euipo",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
+
+// Typos allowed for a fuzzy match, short names only match exactly
+function maxFuzzyDistance(key: string): number {
+  if (key.length <= 3) return 0;
+  return key.length > 8 ? 2 : 1;
+}
+
+const MATCH_ORDER = { exact: 0, phonetic: 1, fuzzy: 2 };
+
+// Offline screening against marks imported with
+// `checkname trademarks import <file>` (live class 9/42 marks only)
+export const trademarkLocalChecker: Checker = {
+  name: "trademark-local",
+  category: "trademark",
+  // Reads the local database, nothing worth caching
+  cacheTtl: 0,
+  async check(name: string): Promise<CheckResult> {
+    try {
+      if (!hasTrademarks()) {
+        return createManualResult(
+          "trademark-local",
+          name,
+          "https://www.uspto.gov/learning-and-resources/bulk-data-products",
+          "No trademarks imported - run `checkname trademarks import <file>` with a USPTO bulk XML/CSV dump",
+        );
+      }
+
+      const key = markKey(name);
+      const nameSoundex = soundex(name);
+      const nameMetaphone = metaphone(name);
+      const maxDistance = maxFuzzyDistance(key);
+
+      const matches: TrademarkMatch[] = [];
+      for (const row of findTrademarkCandidates(
+        key,
+        nameSoundex,
+        nameMetaphone,
+      )) {
+        let match: TrademarkMatch["match"];
+        if (row.markKey === key) {
+          match = "exact";
+        } else if (
+          (nameSoundex && row.soundex === nameSoundex) ||
+          (nameMetaphone && row.metaphone === nameMetaphone)
+        ) {
+          match = "phonetic";
+        } else if (editDistance(key, row.markKey) <= maxDistance) {
+          match = "fuzzy";
+        } else {
+          continue;
+        }
+
+        matches.push({
+          mark: row.mark,
+          office: "USPTO",
+          status: row.status ?? "LIVE",
+          live: true,
+          owner: row.owner ?? undefined,
+          classes: row.classes
+            ? row.classes.split(",").map((c) => parseInt(c, 10))
+            : [],
+          url: tsdrUrl(row.serial),
+          match,
+        });
+      }
+
+      matches.sort((a, b) => MATCH_ORDER[a.match!] - MATCH_ORDER[b.match!]);
+      const exact = matches.find((m) => m.match === "exact");
+
+      return {
+        name,
+        platform: "trademark-local",
+        status: exact ? "taken" : "available",
+        available: !exact,
+        url: exact?.url,
+        trademarks: matches.slice(0, MAX_MARKS),
+      };
+    } catch (error) {
+      return createErrorResult(
+        "trademark-local",
+        name,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+  },
+};
+
+// WIPO Global Brand Database has no public API, so link a search
+// pre-filtered to the software classes. An automated lookup is a follow-up
+// (see "Trademark Checks" in the README).
+export const wipoChecker: Checker = {
+  name: "wipo",
+  category: "trademark",
+  async check(name: string): Promise<CheckResult> {
+    const filter = JSON.stringify({
+      searches: [{ te: name, fi: "brandName", mo: "exact" }],
+      filter: { niceClass: SOFTWARE_CLASSES.map(String) },
+    });
+    return createManualResult(
+      "wipo",
       name,
-      platform: "uspto",
-      available: true, // We can't determine this automatically
-      url: searchUrl,
-      error: "Manual check required - click URL to search USPTO TESS",
-    };
+      `https://branddb.wipo.int/en/similarname/results?asStructure=${encodeURIComponent(filter)}`,
+      "Manual check required - WIPO Global Brand Database has no public API",
+    );
   },
 };
 
@@ -28,13 +403,12 @@ export const googleSoftwareChecker: Checker = {
     const query = `"${name}" software`;
     const searchUrl = `https://www.google.com/search?q=${encodeURIComponent(query)}`;
 
-    return {
+    return createManualResult(
+      "google-software",
       name,
-      platform: "google-software",
-      available: true, // Manual check required
-      url: searchUrl,
-      error: "Manual check required - click URL to search Google",
-    };
+      searchUrl,
+      "Manual check required - click URL to search Google",
+    );
   },
 };
 
@@ -45,13 +419,12 @@ export const googleOpenSourceChecker: Checker = {
     const query = `"${name}" open source`;
     const searchUrl = `https://www.google.com/search?q=${encodeURIComponent(query)}`;
 
-    return {
+    return createManualResult(
+      "google-opensource",
       name,
-      platform: "google-opensource",
-      available: true, // Manual check required
-      url: searchUrl,
-      error: "Manual check required - click URL to search Google",
-    };
+      searchUrl,
+      "Manual check required - click URL to search Google",
+    );
   },
 };
 
@@ -61,12 +434,11 @@ export const fossmarksChecker: Checker = {
   category: "trademark",
   async check(name: string): Promise<CheckResult> {
     // FOSSmarks is a guide, not a database, so we link to the main page
-    return {
+    return createManualResult(
+      "fossmarks",
       name,
-      platform: "fossmarks",
-      available: true,
-      url: "https://fossmarks.org/",
-      error: "Reference resource - review FOSS trademark guidance",
-    };
+      "https://fossmarks.org/",
+      "Reference resource - review FOSS trademark guidance",
+    );
   },
 };
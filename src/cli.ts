@@ -1,25 +1,158 @@
 #!/usr/bin/env bun
 import { Command } from "commander";
 import chalk from "chalk";
-import { allCheckers } from "./checkers";
-import type { CheckResult, Checker } from "./types";
-import { generateNames, type GenerateOptions } from "./generator";
+import {
+  allCheckers,
+  getCheckersByNames,
+  notabilityChecker,
+} from "./checkers";
+import {
+  SIGNAL_PLATFORMS,
+  type CheckResult,
+  type Checker,
+  type NotableEntry,
+} from "./types";
+import {
+  generateNames,
+  type GenerateOptions,
+  type GenerateResult,
+} from "./generator";
 import { listModels, getDefaultModel, getModelDetails } from "./openrouter";
-import { runInteractiveMode, runUntilAvailable } from "./interactive";
-import { resolveCheckers, listProfiles } from "./profiles";
-import { judgeNames, generateMarkdownReport } from "./judge";
-import { findNames, generateFindReport } from "./find";
+import {
+  runInteractiveMode,
+  runUntilAvailable,
+  buildUntilAvailableReport,
+} from "./interactive";
+import {
+  resolveCheckers,
+  listProfiles,
+  formatProfileChecker,
+  scoreAvailability,
+} from "./profiles";
+import {
+  checkWithCache,
+  formatCacheAge,
+  resolveCacheMode,
+  setCacheMode,
+} from "./cache";
+import {
+  judgeNames,
+  buildJudgeReport,
+  SCORE_COLUMNS,
+  SCORE_LEGEND,
+} from "./judge";
+import { findNames, buildFindReport, type TakenEntry } from "./find";
+import {
+  OUTPUT_FORMATS,
+  resolveOutputFormat,
+  formatForFile,
+  renderReport,
+  type OutputFormat,
+  type Report,
+  type ReportCell,
+} from "./report";
 import {
   listProjects as listDbProjects,
   getProject,
   getLeaderboard,
   deleteProject,
+  clearCheckCache,
+  getAvailability,
+  countTrademarks,
+  clearTrademarks,
+  type LeaderboardEntry,
 } from "./db";
+import { importTrademarkFile } from "./trademarks";
+import { loadConfig, applyCommandDefaults } from "./config";
+import {
+  buildVariantMatrix,
+  DEFAULT_MATRIX_CHECKERS,
+  type VariantMatrix,
+} from "./variants";
 
 interface CheckNameOptions {
+  format?: string;
   json?: boolean;
+  csv?: boolean;
+  fromFile?: string;
   only?: string;
   skip?: string;
+  cache?: boolean;
+  refresh?: boolean;
+}
+
+interface NameEntry {
+  name: string;
+  rationale?: string;
+  source?: string;
+}
+
+// Names from a file or stdin: JSON output of generate (or a plain array),
+// or one name per line with # comments
+function parseNameList(content: string): NameEntry[] {
+  const names: NameEntry[] = [];
+  const trimmed = content.trim();
+
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    const parsed = JSON.parse(trimmed);
+
+    // Handle UntilAvailableResult format (qualifiedNames with full details)
+    if (parsed.qualifiedNames && Array.isArray(parsed.qualifiedNames)) {
+      names.push(
+        ...parsed.qualifiedNames.map(
+          (n: {
+            name: string;
+            rationale?: string;
+            source?: string;
+          }) => ({
+            name: n.name.toLowerCase(),
+            rationale: n.rationale,
+            source: n.source,
+          }),
+        ),
+      );
+    }
+    // Handle GenerateResult format
+    else if (parsed.names && Array.isArray(parsed.names)) {
+      names.push(
+        ...parsed.names.map(
+          (n: {
+            name: string;
+            rationale?: string;
+            source?: string;
+          }) => ({
+            name: n.name.toLowerCase(),
+            rationale: n.rationale,
+            source: n.source,
+          }),
+        ),
+      );
+    }
+    // Handle plain array
+    else if (Array.isArray(parsed)) {
+      for (const item of parsed) {
+        if (typeof item === "string") {
+          names.push({ name: item.toLowerCase() });
+        } else if (item.name) {
+          names.push({
+            name: item.name.toLowerCase(),
+            rationale: item.rationale,
+            source: item.source,
+          });
+        }
+      }
+    }
+  } else {
+    // Plain text: one name per line
+    names.push(
+      ...trimmed
+        .split("\n")
+        .map((s) => s.trim().toLowerCase())
+        .filter((s) => s.length > 0 && !s.startsWith("#"))
+        .map((name) => ({ name })),
+    );
+  }
+  return names;
 }
 
 interface OutputResult {
@@ -30,10 +163,44 @@ interface OutputResult {
     available: number;
     unavailable: number;
     errors: number;
+    rateLimited: number;
     manualCheck: number;
+    invalid: number;
+    cached: number;
   };
 }
 
+const CATEGORY_ORDER = [
+  "package",
+  "command",
+  "similarity",
+  "repository",
+  "container",
+  "domain",
+  "social",
+  "uniqueness",
+  "trademark",
+];
+
+const CATEGORY_LABELS: Record<string, string> = {
+  package: "Package Registries",
+  command: "Command Names",
+  similarity: "Similar Names",
+  repository: "Code Repositories",
+  container: "Container Registries",
+  domain: "Domains",
+  social: "Social Handles",
+  uniqueness: "Uniqueness",
+  trademark: "Trademark Checks",
+};
+
+function formatDownloads(downloads?: number): string {
+  if (downloads === undefined) return "downloads unknown";
+  if (downloads >= 1_000_000) return `${(downloads / 1_000_000).toFixed(1)}M/mo`;
+  if (downloads >= 1_000) return `${(downloads / 1_000).toFixed(1)}k/mo`;
+  return `${downloads}/mo`;
+}
+
 function formatResult(result: CheckResult, useJson: boolean): string {
   if (useJson) return "";
 
@@ -53,42 +220,165 @@ function formatResult(result: CheckResult, useJson: boolean): string {
     return `${icon} ${chalk.bold(platform)}: ${countStr}${chalk.dim(activeStr)} ${chalk.dim(url || "")}`;
   }
 
-  // GitHub org checker with variants
-  if (platform === "github-org" && result.variants) {
-    const totalVariants = 15; // Total number of variants we check
-    const availableCount = result.variants.length;
+  // Notability lists Wikipedia/Wikidata entries, exact titles first
+  if (result.notable) {
+    const exact = result.notable.filter((n) => n.exact).length;
+    const summary =
+      exact === 0
+        ? chalk.green("no notable uses")
+        : chalk.red(`${exact} notable use(s)`);
+
+    let output = `${chalk.magenta("📊")} ${chalk.bold(platform)}: ${summary}`;
+    for (const n of result.notable) {
+      const description = n.description ? ` - ${n.description}` : "";
+      const line = `${n.title}${description} ${chalk.dim(`(${n.source}) ${n.url}`)}`;
+      output += n.exact
+        ? `\n      ${chalk.yellow("≈")} ${line}`
+        : `\n      ${chalk.dim(`· ${line}`)}`;
+    }
+    return output;
+  }
+
+  // Similarity checkers list the look-alike packages they found
+  if (result.conflicts && result.status !== "unknown") {
     const icon = available ? chalk.green("✓") : chalk.red("✗");
-    const status = available ? chalk.green("available") : chalk.red("taken");
-    const variantInfo = chalk.dim(
-      `(${availableCount}/${totalVariants} variants available)`,
-    );
+    const status =
+      result.conflicts.length === 0
+        ? chalk.green("no look-alikes")
+        : available
+          ? chalk.green(`${result.conflicts.length} minor look-alike(s)`)
+          : chalk.red(`${result.conflicts.length} look-alike(s)`);
+
+    let output = `${icon} ${chalk.bold(platform)}: ${status}`;
+    for (const c of result.conflicts) {
+      const reason =
+        c.reason === "typo" ? `typo, distance ${c.distance}` : c.reason;
+      output += `\n      ${chalk.yellow("≈")} ${c.name} ${chalk.dim(`(${reason}, ${formatDownloads(c.downloads)}) ${c.url || ""}`)}`;
+    }
+    return output;
+  }
 
-    let output = `${icon} ${chalk.bold(platform)}: ${status} ${variantInfo}`;
+  // Command checker lists what already answers to the name
+  if (result.collisions && result.status !== "unknown") {
+    if (result.collisions.length === 0) {
+      return `${chalk.green("✓")} ${chalk.bold(platform)}: ${chalk.green("no existing command")}`;
+    }
 
-    // Show available variants indented
-    if (result.variants.length > 0) {
-      for (const v of result.variants) {
-        output += `\n      ${chalk.green("✓")} ${chalk.dim(v.variant)}`;
-      }
+    let output = `${chalk.red("✗")} ${chalk.bold(platform)}: ${chalk.red(`${result.collisions.length} collision(s)`)}`;
+    for (const c of result.collisions) {
+      output += `\n      ${chalk.yellow("≈")} ${c.detail} ${chalk.dim(`(${c.source})${c.url ? ` ${c.url}` : ""}`)}`;
     }
+    return output;
+  }
+
+  // Package lookups list exact collisions, then loose search hits
+  if (result.matches && result.status !== "unknown") {
+    const exact = result.matches.filter((m) => m.exact).length;
+    const loose = result.matches.length - exact;
+    const status =
+      exact > 0
+        ? chalk.red(`${exact} exact match(es)`)
+        : chalk.green(
+            loose > 0 ? `available (${loose} loose match(es))` : "available",
+          );
 
+    let output = `${available ? chalk.green("✓") : chalk.red("✗")} ${chalk.bold(platform)}: ${status}`;
+    for (const m of result.matches) {
+      const details = [m.reason, m.version, m.description].filter(Boolean);
+      const line = `${m.name} ${chalk.dim(`(${details.join(", ")})${m.url ? ` ${m.url}` : ""}`)}`;
+      output += m.exact
+        ? `\n      ${chalk.yellow("≈")} ${line}`
+        : `\n      ${chalk.dim(`· ${line}`)}`;
+    }
     return output;
   }
 
-  if (error && !url) {
-    return `${chalk.yellow("⚠")} ${chalk.bold(platform)}: ${chalk.yellow(error)}`;
+  // Trademark office lookups list live software-class marks
+  if (result.trademarks && result.status !== "unknown") {
+    const icon = available ? chalk.green("✓") : chalk.red("✗");
+    const status =
+      result.trademarks.length === 0
+        ? chalk.green("no live marks in classes 9/42")
+        : available
+          ? chalk.yellow(`${result.trademarks.length} similar mark(s)`)
+          : chalk.red("registered mark");
+
+    let output = `${icon} ${chalk.bold(platform)}: ${status}`;
+    for (const tm of result.trademarks) {
+      const details = [
+        tm.match,
+        tm.status,
+        `class ${tm.classes.join(", ")}`,
+        tm.owner,
+      ].filter(Boolean);
+      output += `\n      ${chalk.yellow("≈")} ${tm.mark} ${chalk.dim(`(${details.join(", ")})${tm.url ? ` ${tm.url}` : ""}`)}`;
+    }
+    return output;
   }
 
-  if (error && url) {
-    // Manual check required (trademark checks)
-    return `${chalk.blue("?")} ${chalk.bold(platform)}: ${chalk.blue(error)} ${chalk.dim(url)}`;
+  // Mastodon lists the account on each instance
+  if (platform === "mastodon" && result.variants) {
+    let output =
+      result.status === "available"
+        ? `${chalk.green("✓")} ${chalk.bold(platform)}: ${chalk.green("available")}`
+        : result.status === "taken"
+          ? `${chalk.red("✗")} ${chalk.bold(platform)}: ${chalk.red("taken on every instance")}`
+          : `${chalk.yellow("⚠")} ${chalk.bold(platform)}: ${chalk.yellow(error || "unknown")}`;
+    for (const v of result.variants) {
+      const icon =
+        v.status === "available"
+          ? chalk.green("✓")
+          : v.status === "taken"
+            ? chalk.red("✗")
+            : chalk.yellow("⚠");
+      output += `\n      ${icon} ${chalk.dim(v.variant)}${v.url ? ` ${chalk.dim(v.url)}` : ""}`;
+    }
+    return output;
   }
 
-  if (available) {
-    return `${chalk.green("✓")} ${chalk.bold(platform)}: ${chalk.green("available")}`;
+  // Namespace checkers (github-org, codeberg-org, ...) with variants, only
+  // when every lookup answered
+  if (
+    result.variants &&
+    (result.status === "available" || result.status === "taken")
+  ) {
+    const freeVariants = result.variants.filter((v) => v.available);
+    const icon = available ? chalk.green("✓") : chalk.red("✗");
+    const status = available ? chalk.green("available") : chalk.red("taken");
+    const variantInfo = chalk.dim(
+      `(${freeVariants.length}/${result.variants.length} variants available)`,
+    );
+
+    let output = `${icon} ${chalk.bold(platform)}: ${status} ${variantInfo}`;
+
+    // Show available variants indented
+    for (const v of freeVariants) {
+      output += `\n      ${chalk.green("✓")} ${chalk.dim(v.variant)}`;
+    }
+
+    return output;
   }
 
-  return `${chalk.red("✗")} ${chalk.bold(platform)}: ${chalk.red("taken")} ${chalk.dim(url || "")}`;
+  // Registries that fold names (PyPI, crates.io) were checked canonically
+  const canonicalStr = result.canonicalName
+    ? chalk.dim(` (as ${result.canonicalName})`)
+    : "";
+
+  switch (result.status) {
+    case "available":
+      return `${chalk.green("✓")} ${chalk.bold(platform)}: ${chalk.green("available")}${canonicalStr}`;
+    case "taken":
+      return `${chalk.red("✗")} ${chalk.bold(platform)}: ${chalk.red("taken")}${canonicalStr} ${chalk.dim(url || "")}`;
+    case "manual":
+      // Manual check required (trademark checks)
+      return `${chalk.blue("?")} ${chalk.bold(platform)}: ${chalk.blue(error || "manual check required")} ${chalk.dim(url || "")}`;
+    case "rate-limited":
+      return `${chalk.yellow("⏳")} ${chalk.bold(platform)}: ${chalk.yellow(error || "rate limited")}`;
+    case "invalid":
+      return `${chalk.magenta("⊘")} ${chalk.bold(platform)}: ${chalk.magenta(`invalid name - ${error || "breaks naming rules"}`)}${url ? ` ${chalk.dim(url)}` : ""}`;
+    default:
+      return `${chalk.yellow("⚠")} ${chalk.bold(platform)}: ${chalk.yellow(error || "unknown")}`;
+  }
 }
 
 function printTextOutput(output: OutputResult): void {
@@ -105,28 +395,23 @@ function printTextOutput(output: OutputResult): void {
     byCategory[category].push(result);
   }
 
-  const categoryOrder = [
-    "package",
-    "repository",
-    "domain",
-    "uniqueness",
-    "trademark",
-  ];
-  const categoryLabels: Record<string, string> = {
-    package: "Package Registries",
-    repository: "Code Repositories",
-    domain: "Domains",
-    uniqueness: "Uniqueness",
-    trademark: "Trademark Checks",
-  };
-
-  for (const category of categoryOrder) {
+  for (const category of CATEGORY_ORDER) {
     const results = byCategory[category];
     if (!results || results.length === 0) continue;
 
-    console.log(chalk.bold.cyan(`  ${categoryLabels[category] || category}:`));
+    console.log(chalk.bold.cyan(`  ${CATEGORY_LABELS[category] || category}:`));
     for (const result of results) {
-      console.log(`    ${formatResult(result, false)}`);
+      let line = formatResult(result, false);
+      if (result.cached && result.checkedAt) {
+        // Put the cache note on the first line (variants follow below it)
+        const note = ` ${chalk.dim(`(cached ${formatCacheAge(result.checkedAt)})`)}`;
+        const breakAt = line.indexOf("\n");
+        line =
+          breakAt === -1
+            ? line + note
+            : line.slice(0, breakAt) + note + line.slice(breakAt);
+      }
+      console.log(`    ${line}`);
     }
     console.log();
   }
@@ -143,21 +428,35 @@ function printTextOutput(output: OutputResult): void {
   if (summary.manualCheck > 0) {
     console.log(`  ${chalk.blue("?")} Manual check: ${summary.manualCheck}`);
   }
+  if (summary.invalid > 0) {
+    console.log(`  ${chalk.magenta("⊘")} Invalid name: ${summary.invalid}`);
+  }
+  if (summary.rateLimited > 0) {
+    console.log(`  ${chalk.yellow("⏳")} Rate limited: ${summary.rateLimited}`);
+  }
   if (summary.errors > 0) {
     console.log(`  ${chalk.yellow("⚠")} Errors: ${summary.errors}`);
   }
+  if (summary.cached > 0) {
+    console.log(
+      chalk.dim(
+        `  ${summary.cached} result(s) from cache (use --refresh to re-check)`,
+      ),
+    );
+  }
   console.log();
 }
 
+// Lowercase, with spaces turned into hyphens
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
 async function checkName(
   name: string,
   options: CheckNameOptions,
 ): Promise<OutputResult> {
-  // Normalize the name
-  let normalizedName = name.trim().toLowerCase();
-  if (normalizedName.includes(" ")) {
-    normalizedName = normalizedName.replace(/\s+/g, "-");
-  }
+  const normalizedName = normalizeName(name);
 
   // Filter checkers based on options
   let checkers: Checker[] = [...allCheckers];
@@ -174,35 +473,46 @@ async function checkName(
 
   // Run all checks in parallel
   const results = await Promise.all(
-    checkers.map((checker) => checker.check(normalizedName)),
+    checkers.map((checker) => checkWithCache(checker, normalizedName)),
   );
 
-  // Calculate summary (exclude uniqueness checkers from available/unavailable counts)
+  // Calculate summary (exclude signal checkers from available/unavailable counts)
   let available = 0;
   let unavailable = 0;
   let errors = 0;
+  let rateLimited = 0;
   let manualCheck = 0;
+  let invalid = 0;
 
   for (const result of results) {
-    // Skip uniqueness checkers in summary counts
-    if (result.platform === "github-uniqueness") {
+    // Skip signal checkers (uniqueness, notability) in summary counts
+    if (SIGNAL_PLATFORMS.has(result.platform)) {
       continue;
     }
-    if (result.error && result.url) {
-      // Manual check required
-      manualCheck++;
-    } else if (result.error) {
-      errors++;
-    } else if (result.available) {
-      available++;
-    } else {
-      unavailable++;
+    switch (result.status) {
+      case "available":
+        available++;
+        break;
+      case "taken":
+        unavailable++;
+        break;
+      case "manual":
+        manualCheck++;
+        break;
+      case "rate-limited":
+        rateLimited++;
+        break;
+      case "invalid":
+        invalid++;
+        break;
+      default:
+        errors++;
     }
   }
 
-  // Count non-uniqueness results for total
+  // Count availability results for total
   const nonUniquenessCount = results.filter(
-    (r) => r.platform !== "github-uniqueness",
+    (r) => !SIGNAL_PLATFORMS.has(r.platform),
   ).length;
 
   return {
@@ -213,11 +523,388 @@ async function checkName(
       available,
       unavailable,
       errors,
+      rateLimited,
       manualCheck,
+      invalid,
+      cached: results.filter((r) => r.cached).length,
     },
   };
 }
 
+const MATRIX_ICONS: Record<string, string> = {
+  available: chalk.green("✓"),
+  taken: chalk.red("✗"),
+  invalid: chalk.dim("-"),
+  manual: chalk.blue("?"),
+};
+
+const MATRIX_LEGEND =
+  "  ✓ available  ✗ taken  ⚠ unknown/rate-limited  - invalid name  ? manual";
+
+// Status icon centered in a column of the given width
+function matrixCell(status: string | undefined, width: number): string {
+  const icon = (status && MATRIX_ICONS[status]) || chalk.yellow("⚠");
+  const pad = Math.floor((width - 1) / 2);
+  return " ".repeat(pad) + icon + " ".repeat(width - 1 - pad);
+}
+
+function printVariantMatrix(matrix: VariantMatrix): void {
+  const width = Math.max(
+    "variant".length,
+    ...matrix.rows.map((r) => r.variant.length),
+  );
+
+  console.log();
+  console.log(chalk.bold(`Variants of "${matrix.name}":`));
+  console.log();
+  console.log(
+    chalk.dim(
+      `  ${"variant".padEnd(width)}  ${matrix.checkers.join("  ")}`,
+    ),
+  );
+  for (const row of matrix.rows) {
+    const cells = matrix.checkers.map((checker) =>
+      matrixCell(row.statuses[checker], checker.length),
+    );
+    const variant = row.freeEverywhere
+      ? chalk.green.bold(row.variant.padEnd(width))
+      : row.variant.padEnd(width);
+    console.log(`  ${variant}  ${cells.join("  ")}`);
+  }
+
+  const free = matrix.rows.filter((r) => r.freeEverywhere);
+  console.log();
+  console.log(
+    free.length > 0
+      ? chalk.green(
+          `Free everywhere: ${free.map((r) => r.variant).join(", ")}`,
+        )
+      : chalk.yellow("No variant is free everywhere"),
+  );
+  console.log(chalk.dim(MATRIX_LEGEND));
+  console.log();
+}
+
+const FORMAT_HELP = `Output format: ${OUTPUT_FORMATS.join(", ")} (default: table)`;
+
+function outputFormatOrExit(options: {
+  format?: string;
+  json?: boolean;
+  csv?: boolean;
+}): OutputFormat {
+  try {
+    return resolveOutputFormat(options);
+  } catch (error) {
+    console.error(
+      chalk.red(`Error: ${error instanceof Error ? error.message : error}`),
+    );
+    process.exit(1);
+  }
+}
+
+// Print a report, or write it to `file` in the chosen format (from the
+// extension when no --format is given). Reports print as markdown in
+// the terminal.
+async function emitReport(
+  report: Report,
+  format: OutputFormat,
+  file?: string,
+): Promise<void> {
+  if (file) {
+    const fileFormat = format === "table" ? formatForFile(file) : format;
+    await Bun.write(file, renderReport(report, fileFormat));
+    console.log(chalk.green(`Report written to ${file}`));
+    return;
+  }
+  console.log(renderReport(report, format === "table" ? "markdown" : format));
+}
+
+// Names for `check`: arguments (comma-separated lists allowed), then
+// --from-file ("-" for stdin). Stdin is read when nothing else is given
+// and input is piped.
+async function collectCheckNames(
+  args: string[],
+  fromFile?: string,
+): Promise<string[]> {
+  const names = args.flatMap((arg) => arg.split(","));
+
+  if (fromFile) {
+    const content =
+      fromFile === "-"
+        ? await Bun.stdin.text()
+        : await Bun.file(fromFile).text();
+    names.push(...parseNameList(content).map((n) => n.name));
+  } else if (names.length === 0 && !process.stdin.isTTY) {
+    names.push(...parseNameList(await Bun.stdin.text()).map((n) => n.name));
+  }
+
+  return names.map((n) => n.trim()).filter((n) => n.length > 0);
+}
+
+// Share of countable checks that came back available
+function availabilityRatio(output: OutputResult): number {
+  const counted = output.summary.total - output.summary.manualCheck;
+  return counted > 0 ? output.summary.available / counted : 0;
+}
+
+// Check several names (one shared request scheduler), best first
+async function checkNames(
+  names: string[],
+  options: CheckNameOptions,
+): Promise<OutputResult[]> {
+  // The same name given twice (or differing only in case) is checked once
+  const unique = [...new Set(names.map(normalizeName))];
+  const outputs = await Promise.all(
+    unique.map((name) => checkName(name, options)),
+  );
+  return outputs.sort((a, b) => availabilityRatio(b) - availabilityRatio(a));
+}
+
+// Platforms shown in batch output: signal checkers don't have a status
+function matrixPlatforms(outputs: OutputResult[]): string[] {
+  const platforms = outputs.flatMap((o) => o.results.map((r) => r.platform));
+  return [...new Set(platforms)].filter((p) => !SIGNAL_PLATFORMS.has(p));
+}
+
+// Availability matrix (CSV has just this table), then every result with
+// a link to the registry entry
+function buildCheckReport(outputs: OutputResult[]): Report {
+  const platforms = matrixPlatforms(outputs);
+  const single = outputs.length === 1 ? outputs[0] : undefined;
+
+  const statusCell = (result: CheckResult | undefined): ReportCell =>
+    result && {
+      text: result.status,
+      url: result.status === "taken" ? result.url : undefined,
+      status: result.status,
+    };
+
+  return {
+    title: single
+      ? `Availability of "${single.name}"`
+      : `Availability of ${outputs.length} names`,
+    subtitle: single ? undefined : "Sorted by availability",
+    tables: [
+      {
+        columns: [
+          { key: "name", label: "name" },
+          { key: "available", label: "available" },
+          { key: "total", label: "total" },
+          ...platforms.map((p) => ({ key: p, label: p })),
+        ],
+        rows: outputs.map((output) => ({
+          name: { text: output.name, bold: true },
+          available: output.summary.available,
+          total: output.summary.total - output.summary.manualCheck,
+          ...Object.fromEntries(
+            platforms.map((p) => [
+              p,
+              statusCell(output.results.find((r) => r.platform === p)),
+            ]),
+          ),
+        })),
+      },
+      {
+        title: "Results",
+        columns: [
+          { key: "name", label: "Name" },
+          { key: "platform", label: "Platform" },
+          { key: "status", label: "Status" },
+          { key: "details", label: "Details" },
+        ],
+        rows: outputs.flatMap((output) =>
+          output.results
+            .filter((r) => !SIGNAL_PLATFORMS.has(r.platform))
+            .map((r) => ({
+              name: output.name,
+              platform: r.platform,
+              status: statusCell(r),
+              // Taken entries are linked from the status already
+              details:
+                r.url && r.status !== "taken"
+                  ? { text: r.error || r.url, url: r.url }
+                  : r.error || "",
+            })),
+        ),
+      },
+    ],
+    data: single ?? { checkers: platforms, names: outputs },
+    records: outputs,
+  };
+}
+
+// Ranked candidates, then where they're already taken
+function buildLeaderboardReport(
+  projectTag: string,
+  description: string | null,
+  entries: Array<
+    LeaderboardEntry & { availabilityPercent: number; taken: TakenEntry[] }
+  >,
+): Report {
+  const taken = entries.flatMap((e) =>
+    e.taken.map((t) => ({
+      name: e.name,
+      platform: t.platform,
+      entry: t.url ? { text: t.url, url: t.url } : "",
+    })),
+  );
+
+  return {
+    title: `Leaderboard for "${projectTag}"`,
+    subtitle: description ?? undefined,
+    tables: [
+      {
+        columns: [
+          { key: "rank", label: "Rank" },
+          { key: "name", label: "Name" },
+          { key: "overall", label: "Score" },
+          { key: "verdict", label: "Verdict" },
+          { key: "availability", label: "Avail" },
+          ...SCORE_COLUMNS,
+          { key: "weaknesses", label: "Weaknesses" },
+        ],
+        rows: entries.map((e, i) => ({
+          rank: i + 1,
+          name: { text: e.name, bold: true },
+          overall: e.overall.toFixed(1),
+          verdict: e.verdict,
+          availability: `${Math.round(e.availabilityPercent)}%`,
+          typability: e.typability,
+          memorability: e.memorability,
+          story: e.story,
+          uniqueness: e.uniqueness,
+          culturalRisk: e.culturalRisk,
+          weaknesses: e.weaknesses,
+        })),
+      },
+      ...(taken.length > 0
+        ? [
+            {
+              title: "Taken Elsewhere",
+              columns: [
+                { key: "name", label: "Name" },
+                { key: "platform", label: "Platform" },
+                { key: "entry", label: "Entry" },
+              ],
+              rows: taken,
+            },
+          ]
+        : []),
+    ],
+    footer: SCORE_LEGEND,
+    data: { project: projectTag, entries },
+    records: entries,
+  };
+}
+
+// Slow trademark lookups are left out of `generate --check`
+const GENERATE_CHECK_SKIP = "uspto,google-software,google-opensource,fossmarks";
+
+// Generated names, with availability when --check ran
+function buildGenerateReport(
+  description: string,
+  result: GenerateResult,
+  checks?: OutputResult[],
+): Report {
+  const byName = new Map(checks?.map((o) => [o.name, o]));
+  const availability = (name: string) => {
+    const output = byName.get(name.trim().toLowerCase());
+    return output ? `${Math.round(availabilityRatio(output) * 100)}%` : "";
+  };
+
+  return {
+    title: "Generated Names",
+    subtitle: description,
+    tables: [
+      {
+        columns: [
+          { key: "rank", label: "#" },
+          { key: "name", label: "Name" },
+          { key: "source", label: "Source" },
+          ...(checks ? [{ key: "availability", label: "Avail" }] : []),
+          { key: "rationale", label: "Rationale" },
+        ],
+        rows: result.names.map((n, i) => ({
+          rank: i + 1,
+          name: { text: n.name, bold: true },
+          source: n.source,
+          availability: availability(n.name),
+          rationale: n.rationale,
+        })),
+      },
+      ...(checks ? buildCheckReport(checks).tables : []),
+    ],
+    footer: `Model: ${result.model}`,
+    data: checks ? { ...result, checks } : result,
+    records: result.names,
+  };
+}
+
+// Names × checkers matrix. The longer list runs down the rows so wide
+// checker sets (or long name lists) still fit the terminal.
+function printBatchMatrix(outputs: OutputResult[]): void {
+  const platforms = matrixPlatforms(outputs);
+  const statuses = new Map(
+    outputs.map((o) => [
+      o.name,
+      new Map(o.results.map((r) => [r.platform, r.status])),
+    ]),
+  );
+  const names = outputs.map((o) => o.name);
+  const namesAsRows = names.length >= platforms.length;
+  const rows = namesAsRows ? names : platforms;
+  const columns = namesAsRows ? platforms : names;
+  const status = (row: string, column: string) =>
+    namesAsRows
+      ? statuses.get(row)?.get(column)
+      : statuses.get(column)?.get(row);
+
+  const width = Math.max(...rows.map((r) => r.length));
+  console.log();
+  console.log(chalk.bold(`Availability of ${names.length} names:`));
+  console.log();
+  console.log(chalk.dim(`  ${" ".repeat(width)}  ${columns.join("  ")}`));
+  for (const row of rows) {
+    const cells = columns.map((column) =>
+      matrixCell(status(row, column), column.length),
+    );
+    console.log(`  ${chalk.bold(row.padEnd(width))}  ${cells.join("  ")}`);
+  }
+  console.log();
+  console.log(chalk.dim(MATRIX_LEGEND));
+
+  // Combined summary, best first
+  const nameWidth = Math.max(...names.map((n) => n.length));
+  console.log();
+  console.log(chalk.bold("Summary (by availability):"));
+  for (const output of outputs) {
+    const { summary } = output;
+    const ratio = availabilityRatio(output);
+    const color =
+      ratio >= 0.8 ? chalk.green : ratio >= 0.5 ? chalk.yellow : chalk.red;
+    const extra = [
+      summary.unavailable > 0 ? `${summary.unavailable} taken` : "",
+      summary.invalid > 0 ? `${summary.invalid} invalid` : "",
+      summary.errors + summary.rateLimited > 0
+        ? `${summary.errors + summary.rateLimited} failed`
+        : "",
+    ].filter(Boolean);
+    console.log(
+      `  ${output.name.padEnd(nameWidth)}  ${color(
+        `${summary.available}/${summary.total - summary.manualCheck} available (${Math.round(ratio * 100)}%)`,
+      )}${extra.length > 0 ? chalk.dim(`  ${extra.join(", ")}`) : ""}`,
+    );
+  }
+
+  const cached = outputs.reduce((n, o) => n + o.summary.cached, 0);
+  if (cached > 0) {
+    console.log(
+      chalk.dim(`  ${cached} result(s) from cache (use --refresh to re-check)`),
+    );
+  }
+  console.log();
+}
+
 async function main() {
   // Load models config
   const modelsList = await listModels();
@@ -237,23 +924,100 @@ async function main() {
     .enablePositionalOptions()
     .passThroughOptions();
 
+  // Commands that run checkers accept --no-cache / --refresh
+  program.hook("preAction", (_thisCommand, actionCommand) => {
+    setCacheMode(resolveCacheMode(actionCommand.opts()));
+  });
+
   program
     .command("check", { isDefault: true })
     .description("Check name availability across all platforms")
-    .argument("<name>", "The name to check")
-    .option("-j, --json", "Output results as JSON")
+    .argument(
+      "[names...]",
+      "Names to check (or use --from-file, or pipe them on stdin)",
+    )
+    .option(
+      "-f, --from-file <file>",
+      'Read names from file (JSON from generate, or one name per line; "-" for stdin)',
+    )
+    .option("--format <format>", FORMAT_HELP)
+    .option("-j, --json", "Output results as JSON (--format json)")
+    .option("--csv", "Output a names × checkers matrix as CSV (--format csv)")
     .option(
       "-o, --only <checkers>",
       "Only run specific checkers (comma-separated)",
     )
     .option("-s, --skip <checkers>", "Skip specific checkers (comma-separated)")
-    .action(async (name: string, options: CheckNameOptions) => {
-      const output = await checkName(name, options);
+    .option("--no-cache", "Bypass the availability cache")
+    .option("--refresh", "Re-check everything and update the cache")
+    .action(async (args: string[], options: CheckNameOptions) => {
+      let names: string[];
+      try {
+        names = await collectCheckNames(args, options.fromFile);
+      } catch (error) {
+        console.error(
+          chalk.red(
+            `Error reading names: ${error instanceof Error ? error.message : error}`,
+          ),
+        );
+        process.exit(1);
+      }
+      if (names.length === 0) {
+        console.error(chalk.red("No names to check"));
+        process.exit(1);
+      }
+
+      const format = outputFormatOrExit(options);
+      const outputs = await checkNames(names, options);
 
+      if (format !== "table") {
+        console.log(renderReport(buildCheckReport(outputs), format));
+      } else if (outputs.length === 1) {
+        // A single name keeps the detailed per-platform output
+        printTextOutput(outputs[0]!);
+      } else {
+        printBatchMatrix(outputs);
+      }
+    });
+
+  interface VariantsCommandOptions {
+    checkers?: string;
+    json?: boolean;
+    cache?: boolean;
+    refresh?: boolean;
+  }
+
+  program
+    .command("variants")
+    .description(
+      "Check prefixed/suffixed variants of a name and show which are free everywhere",
+    )
+    .argument("<name>", "The base name")
+    .option(
+      "-c, --checkers <list>",
+      `Checkers to include (default: ${DEFAULT_MATRIX_CHECKERS.join(",")})`,
+    )
+    .option("-j, --json", "Output the matrix as JSON")
+    .option("--no-cache", "Bypass the availability cache")
+    .option("--refresh", "Re-check everything and update the cache")
+    .action(async (name: string, options: VariantsCommandOptions) => {
+      const checkerNames = options.checkers
+        ? options.checkers.split(",").map((s) => s.trim())
+        : DEFAULT_MATRIX_CHECKERS;
+      const checkers = getCheckersByNames(checkerNames);
+      if (checkers.length === 0) {
+        console.error(chalk.red(`No matching checkers: ${checkerNames}`));
+        process.exit(1);
+      }
+
+      const matrix = await buildVariantMatrix(
+        name.trim().toLowerCase(),
+        checkers,
+      );
       if (options.json) {
-        console.log(JSON.stringify(output, null, 2));
+        console.log(JSON.stringify(matrix, null, 2));
       } else {
-        printTextOutput(output);
+        printVariantMatrix(matrix);
       }
     });
 
@@ -269,17 +1033,9 @@ async function main() {
         byCategory[checker.category].push(checker);
       }
 
-      const categoryLabels: Record<string, string> = {
-        package: "Package Registries",
-        repository: "Code Repositories",
-        domain: "Domains",
-        uniqueness: "Uniqueness",
-        trademark: "Trademark Checks",
-      };
-
       for (const [category, checkers] of Object.entries(byCategory)) {
         console.log(
-          chalk.bold.cyan(`  ${categoryLabels[category] || category}:`),
+          chalk.bold.cyan(`  ${CATEGORY_LABELS[category] || category}:`),
         );
         for (const checker of checkers) {
           console.log(`    - ${checker.name}`);
@@ -293,6 +1049,7 @@ async function main() {
     model: string;
     style: string;
     sources?: string;
+    format?: string;
     json?: boolean;
     check?: boolean;
     interactive?: boolean;
@@ -302,6 +1059,8 @@ async function main() {
     checkers?: string;
     exclude?: string;
     excludeFrom?: string;
+    cache?: boolean;
+    refresh?: boolean;
   }
 
   program
@@ -323,7 +1082,8 @@ async function main() {
       "--sources <languages>",
       "Comma-separated language sources (german,latin,greek,japanese,spanish,english)",
     )
-    .option("-j, --json", "Output as JSON")
+    .option("--format <format>", FORMAT_HELP)
+    .option("-j, --json", "Output as JSON (--format json)")
     .option("-c, --check", "Run availability checks on generated names")
     .option("-i, --interactive", "Interactive mode with continuous generation")
     .option(
@@ -337,7 +1097,7 @@ async function main() {
     )
     .option(
       "-p, --profile <name>",
-      "Checker profile to use (minimal, node, python, rust, go, full, complete)",
+      "Checker profile to use (minimal, node, python, rust, go, full, complete, auto)",
     )
     .option(
       "--checkers <list>",
@@ -351,12 +1111,15 @@ async function main() {
       "--exclude-from <file>",
       "File containing names to exclude (one per line, or JSON from previous run)",
     )
+    .option("--no-cache", "Bypass the availability cache")
+    .option("--refresh", "Re-check everything and update the cache")
     .action(async (description: string, options: GenerateCommandOptions) => {
       const count = parseInt(options.count, 10);
       if (isNaN(count) || count < 1 || count > 50) {
         console.error(chalk.red("Count must be between 1 and 50"));
         process.exit(1);
       }
+      const format = outputFormatOrExit(options);
 
       const sources = options.sources?.split(",").map((s) => s.trim());
 
@@ -474,7 +1237,7 @@ async function main() {
           process.exit(1);
         }
 
-        await runUntilAvailable(description, {
+        const untilResult = await runUntilAvailable(description, {
           model: options.model,
           style: options.style as GenerateOptions["style"],
           sources,
@@ -482,13 +1245,18 @@ async function main() {
           targetAvailable,
           availabilityThreshold: threshold,
           checkers,
-          json: options.json,
+          quiet: format !== "table",
           excludedNames: excludedNames.length > 0 ? excludedNames : undefined,
         });
+        if (format !== "table") {
+          console.log(
+            renderReport(buildUntilAvailableReport(untilResult), format),
+          );
+        }
         return;
       }
 
-      if (!options.json) {
+      if (format === "table") {
         console.log(
           chalk.dim(`\nGenerating ${count} names using ${options.model}...\n`),
         );
@@ -504,21 +1272,33 @@ async function main() {
           excludedNames: excludedNames.length > 0 ? excludedNames : undefined,
         });
 
-        if (options.json) {
-          console.log(JSON.stringify(result, null, 2));
-        } else {
-          console.log(chalk.bold.underline("Generated Names:\n"));
-          for (let i = 0; i < result.names.length; i++) {
-            const { name, rationale, source } = result.names[i];
-            const num = chalk.dim(`${(i + 1).toString().padStart(2)}.`);
-            const nameStr = chalk.bold.green(name);
-            const sourceStr = source ? chalk.cyan(`[${source}]`) : "";
-            console.log(`${num} ${nameStr} ${sourceStr}`);
-            console.log(`    ${chalk.dim(rationale)}`);
-          }
-          console.log();
-          console.log(chalk.dim(`Model: ${result.model}`));
+        if (format !== "table") {
+          const checks = options.check
+            ? await checkNames(
+                result.names.map((n) => n.name),
+                { skip: GENERATE_CHECK_SKIP },
+              )
+            : undefined;
+          console.log(
+            renderReport(
+              buildGenerateReport(description, result, checks),
+              format,
+            ),
+          );
+          return;
+        }
+
+        console.log(chalk.bold.underline("Generated Names:\n"));
+        for (let i = 0; i < result.names.length; i++) {
+          const { name, rationale, source } = result.names[i];
+          const num = chalk.dim(`${(i + 1).toString().padStart(2)}.`);
+          const nameStr = chalk.bold.green(name);
+          const sourceStr = source ? chalk.cyan(`[${source}]`) : "";
+          console.log(`${num} ${nameStr} ${sourceStr}`);
+          console.log(`    ${chalk.dim(rationale)}`);
         }
+        console.log();
+        console.log(chalk.dim(`Model: ${result.model}`));
 
         // Run availability checks if requested
         if (options.check) {
@@ -526,7 +1306,7 @@ async function main() {
           for (const { name } of result.names) {
             console.log(chalk.bold(`\n--- Checking: ${name} ---`));
             const checkResult = await checkName(name, {
-              skip: "uspto,google-software,google-opensource,fossmarks",
+              skip: GENERATE_CHECK_SKIP,
             });
             printTextOutput(checkResult);
           }
@@ -569,7 +1349,7 @@ async function main() {
         console.log(`  ${chalk.bold.cyan(name)}`);
         console.log(`    ${chalk.dim(config.description)}`);
         console.log(
-          `    ${chalk.dim("Checkers:")} ${config.checkers.join(", ")}`,
+          `    ${chalk.dim("Checkers:")} ${config.checkers.map(formatProfileChecker).join(", ")}`,
         );
         console.log();
       }
@@ -578,8 +1358,10 @@ async function main() {
   interface JudgeCommandOptions {
     model: string;
     output?: string;
+    format?: string;
     json?: boolean;
     fromFile?: string;
+    notability?: boolean;
   }
 
   program
@@ -592,93 +1374,43 @@ async function main() {
       `Judge model to use (${modelsStr})`,
       defaultJudgeModel,
     )
-    .option("-o, --output <file>", "Write markdown report to file")
-    .option("-j, --json", "Output raw JSON instead of markdown")
+    .option(
+      "-o, --output <file>",
+      "Write the report to file (format from --format or the extension)",
+    )
+    .option("--format <format>", FORMAT_HELP)
+    .option("-j, --json", "Output raw JSON instead of markdown (--format json)")
     .option(
       "-f, --from-file <file>",
       "Read names from file (JSON from generate command, or one name per line)",
     )
+    .option(
+      "--notability",
+      "Look up Wikipedia/Wikidata uses of each name for the uniqueness score",
+    )
     .action(
       async (
         description: string,
         names: string[],
         options: JudgeCommandOptions,
       ) => {
+        const format = outputFormatOrExit(options);
+        // Progress goes to the terminal unless a machine format is on stdout
+        const quiet = format !== "table" && !options.output;
+
         // Parse names from arguments and/or file
         const parsedNames: Array<{
           name: string;
           rationale?: string;
           source?: string;
+          notable?: NotableEntry[];
         }> = [];
 
         // Load from file if specified
         if (options.fromFile) {
           try {
             const fileContent = await Bun.file(options.fromFile).text();
-            const trimmed = fileContent.trim();
-
-            if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
-              const parsed = JSON.parse(trimmed);
-
-              // Handle UntilAvailableResult format (qualifiedNames with full details)
-              if (
-                parsed.qualifiedNames &&
-                Array.isArray(parsed.qualifiedNames)
-              ) {
-                parsedNames.push(
-                  ...parsed.qualifiedNames.map(
-                    (n: {
-                      name: string;
-                      rationale?: string;
-                      source?: string;
-                    }) => ({
-                      name: n.name.toLowerCase(),
-                      rationale: n.rationale,
-                      source: n.source,
-                    }),
-                  ),
-                );
-              }
-              // Handle GenerateResult format
-              else if (parsed.names && Array.isArray(parsed.names)) {
-                parsedNames.push(
-                  ...parsed.names.map(
-                    (n: {
-                      name: string;
-                      rationale?: string;
-                      source?: string;
-                    }) => ({
-                      name: n.name.toLowerCase(),
-                      rationale: n.rationale,
-                      source: n.source,
-                    }),
-                  ),
-                );
-              }
-              // Handle plain array
-              else if (Array.isArray(parsed)) {
-                for (const item of parsed) {
-                  if (typeof item === "string") {
-                    parsedNames.push({ name: item.toLowerCase() });
-                  } else if (item.name) {
-                    parsedNames.push({
-                      name: item.name.toLowerCase(),
-                      rationale: item.rationale,
-                      source: item.source,
-                    });
-                  }
-                }
-              }
-            } else {
-              // Plain text: one name per line
-              parsedNames.push(
-                ...trimmed
-                  .split("\n")
-                  .map((s) => s.trim().toLowerCase())
-                  .filter((s) => s.length > 0 && !s.startsWith("#"))
-                  .map((name) => ({ name })),
-              );
-            }
+            parsedNames.push(...parseNameList(fileContent));
           } catch (error) {
             console.error(
               chalk.red(
@@ -705,7 +1437,7 @@ async function main() {
           process.exit(1);
         }
 
-        if (!options.json) {
+        if (!quiet) {
           console.log(
             chalk.dim(
               `\nEvaluating ${parsedNames.length} names with ${options.model}...\n`,
@@ -713,6 +1445,15 @@ async function main() {
           );
         }
 
+        if (options.notability) {
+          await Promise.all(
+            parsedNames.map(async (n) => {
+              const result = await checkWithCache(notabilityChecker, n.name);
+              n.notable = result.notable;
+            }),
+          );
+        }
+
         try {
           const result = await judgeNames({
             names: parsedNames,
@@ -720,18 +1461,9 @@ async function main() {
             model: options.model,
           });
 
-          if (options.json) {
-            console.log(JSON.stringify(result, null, 2));
-          } else {
-            const report = generateMarkdownReport(result);
-
-            if (options.output) {
-              await Bun.write(options.output, report);
-              console.log(chalk.green(`Report written to ${options.output}`));
-            } else {
-              console.log(report);
-            }
+          await emitReport(buildJudgeReport(result), format, options.output);
 
+          if (!quiet) {
             // Print quick summary
             console.log();
             console.log(
@@ -765,8 +1497,11 @@ async function main() {
     style?: string;
     sources?: string;
     output?: string;
+    format?: string;
     json?: boolean;
     project?: string;
+    cache?: boolean;
+    refresh?: boolean;
   }
 
   program
@@ -797,7 +1532,7 @@ async function main() {
     )
     .option(
       "-p, --profile <name>",
-      "Checker profile (minimal, node, python, rust, go, full, complete)",
+      "Checker profile (minimal, node, python, rust, go, full, complete, auto)",
     )
     .option(
       "--checkers <list>",
@@ -813,8 +1548,14 @@ async function main() {
       "--project <tag>",
       "Project tag for tracking names in database (enables persistence)",
     )
-    .option("-o, --output <file>", "Write markdown report to file")
-    .option("-j, --json", "Output as JSON")
+    .option(
+      "-o, --output <file>",
+      "Write the report to file (format from --format or the extension)",
+    )
+    .option("--format <format>", FORMAT_HELP)
+    .option("-j, --json", "Output as JSON (--format json)")
+    .option("--no-cache", "Bypass the availability cache")
+    .option("--refresh", "Re-check everything and update the cache")
     .action(async (description: string, options: FindCommandOptions) => {
       const targetCount = parseInt(options.count, 10);
       const batchSize = parseInt(options.batch, 10);
@@ -822,6 +1563,9 @@ async function main() {
       const minScore = parseFloat(options.minScore);
       const maxIterations = parseInt(options.maxIterations, 10);
       const verdicts = options.verdict.split(",").map((v) => v.trim());
+      const format = outputFormatOrExit(options);
+      // Progress goes to the terminal unless a machine format is on stdout
+      const quiet = format !== "table" && !options.output;
 
       // Validate inputs
       if (isNaN(targetCount) || targetCount < 1) {
@@ -871,22 +1615,11 @@ async function main() {
           checkers,
           style: options.style as "short" | "word" | "compound" | "all",
           sources,
-          quiet: options.json,
+          quiet,
           project: options.project,
         });
 
-        if (options.json) {
-          console.log(JSON.stringify(result, null, 2));
-        } else {
-          const report = generateFindReport(result);
-
-          if (options.output) {
-            await Bun.write(options.output, report);
-            console.log(chalk.green(`\nReport written to ${options.output}`));
-          } else {
-            console.log(report);
-          }
-        }
+        await emitReport(buildFindReport(result), format, options.output);
       } catch (error) {
         console.error(
           chalk.red(`Error: ${error instanceof Error ? error.message : error}`),
@@ -944,17 +1677,25 @@ async function main() {
       "Filter by verdict (comma-separated)",
       "strong,consider",
     )
-    .option("-j, --json", "Output as JSON")
+    .option(
+      "-p, --profile <name>",
+      "Profile whose weights and required checkers score availability (default: from config, else auto-detected, else full)",
+    )
+    .option("--format <format>", FORMAT_HELP)
+    .option("-j, --json", "Output as JSON (--format json)")
     .action(
-      (
+      async (
         projectTag: string,
         options: {
           limit: string;
           minScore: string;
           verdict: string;
+          profile?: string;
+          format?: string;
           json?: boolean;
         },
       ) => {
+        const format = outputFormatOrExit(options);
         const project = getProject(projectTag);
         if (!project) {
           console.error(chalk.red(`Project "${projectTag}" not found.`));
@@ -968,15 +1709,53 @@ async function main() {
         const minScore = parseFloat(options.minScore);
         const verdicts = options.verdict.split(",").map((v) => v.trim());
 
-        const entries = getLeaderboard(project.id, {
-          limit,
+        // Weighted availability from the stored checks; names that failed a
+        // required checker are left out
+        let checkers;
+        try {
+          checkers = await resolveCheckers({ profile: options.profile });
+        } catch (error) {
+          console.error(
+            chalk.red(
+              `Error: ${error instanceof Error ? error.message : error}`,
+            ),
+          );
+          process.exit(1);
+        }
+        const scored = getLeaderboard(project.id, {
           minScore,
           verdicts,
+        }).map((entry) => {
+          const checks = getAvailability(entry.nameId);
+          const availability = scoreAvailability(
+            checkers,
+            checks.map((check) => ({
+              platform: check.checker,
+              status: check.status,
+            })),
+          );
+          return {
+            ...entry,
+            availabilityPercent: availability.score * 100,
+            failedRequired: availability.failedRequired,
+            taken: checks
+              .filter((check) => check.status === "taken")
+              .map((check) => ({
+                platform: check.checker,
+                url: check.url ?? undefined,
+              })),
+          };
         });
+        const eligible = scored.filter((e) => e.failedRequired.length === 0);
+        const rejected = scored.length - eligible.length;
+        const entries = eligible.slice(0, limit);
 
-        if (options.json) {
+        if (format !== "table") {
           console.log(
-            JSON.stringify({ project: projectTag, entries }, null, 2),
+            renderReport(
+              buildLeaderboardReport(projectTag, project.description, entries),
+              format,
+            ),
           );
           return;
         }
@@ -1027,10 +1806,83 @@ async function main() {
 
         console.log();
         console.log(chalk.dim(`  Showing top ${entries.length} candidates.`));
+        if (rejected > 0) {
+          console.log(
+            chalk.dim(`  ${rejected} hidden (failed a required checker).`),
+          );
+        }
         console.log();
       },
     );
 
+  // Cache command - manage cached availability results
+  const cacheCommand = program
+    .command("cache")
+    .description("Manage the availability check cache");
+
+  cacheCommand
+    .command("clear")
+    .description("Delete cached results (all, or for one checker)")
+    .argument("[checker]", "Only clear results for this checker")
+    .action((checker?: string) => {
+      const removed = clearCheckCache(checker);
+      console.log(
+        chalk.green(
+          `Removed ${removed} cached result(s)${checker ? ` for ${checker}` : ""}.`,
+        ),
+      );
+    });
+
+  // Trademarks command - local trademark database for trademark-local
+  const trademarksCommand = program
+    .command("trademarks")
+    .description("Manage the local trademark database");
+
+  trademarksCommand
+    .command("import")
+    .description(
+      "Import live class 9/42 marks from a USPTO bulk XML or CSV file",
+    )
+    .argument("<file>", "Unzipped USPTO XML (case-file) or CSV dump")
+    .action(async (file: string) => {
+      try {
+        const stats = await importTrademarkFile(file, (progress) => {
+          process.stdout.write(
+            chalk.dim(`\r  Imported ${progress.imported} mark(s)...`),
+          );
+        });
+        process.stdout.write("\r");
+        console.log(
+          chalk.green(
+            `Imported ${stats.imported} mark(s), skipped ${stats.skipped} (dead or outside classes 9/42).`,
+          ),
+        );
+        console.log(chalk.dim(`  ${countTrademarks()} mark(s) in database.`));
+      } catch (error) {
+        console.error(
+          chalk.red(
+            `Import failed: ${error instanceof Error ? error.message : error}`,
+          ),
+        );
+        process.exit(1);
+      }
+    });
+
+  trademarksCommand
+    .command("stats")
+    .description("Show how many marks are in the local database")
+    .action(() => {
+      console.log(`${countTrademarks()} mark(s) in the local database.`);
+    });
+
+  trademarksCommand
+    .command("clear")
+    .description("Delete all imported marks")
+    .action(() => {
+      const removed = clearTrademarks();
+      console.log(chalk.green(`Removed ${removed} mark(s).`));
+    });
+
   // Delete project command
   program
     .command("delete-project")
@@ -1068,10 +1920,15 @@ ${chalk.bold("Examples:")}
   $ checkname myproject --json       Output as JSON
   $ checkname myproject -o npm,pypi  Only check npm and PyPI
   $ checkname myproject -s trademark Skip trademark checks
+  $ checkname foo bar baz            Compare several names
   $ checkname list                   List all available checkers
 `,
   );
 
+  // Option defaults from ~/.config/checkname/config.yaml and .checkname.yaml
+  const config = await loadConfig();
+  applyCommandDefaults(program, config.commands);
+
   program.parse();
 }
 
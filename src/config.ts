@@ -0,0 +1,151 @@
+import { existsSync } from "fs";
+import os from "os";
+import path from "path";
+import { parse } from "yaml";
+import type { Command } from "commander";
+import type { CheckersFile } from "./checkers/http";
+import type { ModelConfig } from "./openrouter";
+import type { ProfileDefinition } from "./profiles";
+
+// Per-user config, next to the database
+export const USER_CONFIG_PATH = path.join(
+  os.homedir(),
+  ".config",
+  "checkname",
+  "config.yaml",
+);
+
+// Per-project config, looked up from the working directory upwards
+export const PROJECT_CONFIG_FILE = ".checkname.yaml";
+
+// Also takes the keys of config/checkers.yaml (custom checkers, forges,
+// domains, Mastodon instances, variants), merged over the bundled file
+export interface ConfigFile extends CheckersFile {
+  default?: string; // Default checker profile
+  profiles?: Record<string, ProfileDefinition>;
+  // Alias -> model ID, or { id, description }
+  models?: Record<string, string | ModelConfig>;
+  // Command name ("check", "cache clear", ...) -> option defaults
+  commands?: Record<string, Record<string, unknown>>;
+}
+
+export interface ConfigLayer {
+  path: string;
+  config: ConfigFile;
+}
+
+export interface Config {
+  // User config first, then project config (later layers win)
+  layers: ConfigLayer[];
+  default?: string;
+  models: Record<string, ModelConfig>;
+  commands: Record<string, Record<string, unknown>>;
+}
+
+function findProjectConfig(): string | null {
+  for (let dir = process.cwd(); ; dir = path.dirname(dir)) {
+    const candidate = path.join(dir, PROJECT_CONFIG_FILE);
+    if (existsSync(candidate)) return candidate;
+    if (path.dirname(dir) === dir) return null;
+  }
+}
+
+async function readLayer(filePath: string): Promise<ConfigLayer | null> {
+  const file = Bun.file(filePath);
+  if (!(await file.exists())) return null;
+
+  let config: unknown;
+  try {
+    config = parse(await file.text());
+  } catch (error) {
+    throw new Error(
+      `Invalid config ${filePath}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+  if (config === null || config === undefined) return { path: filePath, config: {} };
+  if (typeof config !== "object" || Array.isArray(config)) {
+    throw new Error(`Invalid config ${filePath}: expected a mapping`);
+  }
+  return { path: filePath, config: config as ConfigFile };
+}
+
+async function readConfig(): Promise<Config> {
+  const paths = [USER_CONFIG_PATH, findProjectConfig()];
+  const layers: ConfigLayer[] = [];
+  for (const filePath of new Set(paths)) {
+    if (!filePath) continue;
+    const layer = await readLayer(filePath);
+    if (layer) layers.push(layer);
+  }
+
+  const merged: Config = { layers, models: {}, commands: {} };
+  for (const { path: filePath, config } of layers) {
+    if (config.default) merged.default = config.default;
+
+    for (const [alias, model] of Object.entries(config.models ?? {})) {
+      merged.models[alias] =
+        typeof model === "string"
+          ? { id: model, description: `Alias from ${filePath}` }
+          : model;
+    }
+
+    for (const [command, options] of Object.entries(config.commands ?? {})) {
+      merged.commands[command] = { ...merged.commands[command], ...options };
+    }
+  }
+  return merged;
+}
+
+let config: Promise<Config> | null = null;
+
+// User and project config merged (read once)
+export function loadConfig(): Promise<Config> {
+  config ??= readConfig();
+  return config;
+}
+
+// Option values as commander would have parsed them from the command line
+function toOptionValue(value: unknown, takesValue: boolean): unknown {
+  if (!takesValue) return value;
+  if (Array.isArray(value)) return value.join(",");
+  return String(value);
+}
+
+// Use the configured option values as defaults; flags given on the
+// command line still win
+export function applyCommandDefaults(
+  program: Command,
+  commands: Record<string, Record<string, unknown>>,
+): void {
+  const byPath = new Map<string, Command>();
+  const collect = (command: Command, prefix: string) => {
+    for (const sub of command.commands) {
+      const name = prefix ? `${prefix} ${sub.name()}` : sub.name();
+      byPath.set(name, sub);
+      collect(sub, name);
+    }
+  };
+  collect(program, "");
+
+  for (const [commandPath, options] of Object.entries(commands)) {
+    const command = byPath.get(commandPath);
+    if (!command) {
+      console.warn(`Ignoring defaults for unknown command '${commandPath}' in config`);
+      continue;
+    }
+
+    for (const [key, value] of Object.entries(options ?? {})) {
+      const option = command.options.find(
+        (o) => o.attributeName() === key || o.long === `--${key}`,
+      );
+      if (!option) {
+        console.warn(`Ignoring unknown option '${key}' for '${commandPath}' in config`);
+        continue;
+      }
+
+      const parsed = toOptionValue(value, option.required || option.optional);
+      option.default(parsed);
+      command.setOptionValueWithSource(option.attributeName(), parsed, "config");
+    }
+  }
+}
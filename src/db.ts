@@ -1,6 +1,7 @@
 import { Database } from "bun:sqlite";
 import path from "path";
 import os from "os";
+import type { AvailabilityStatus } from "./types";
 
 // Database location: ~/.config/checkname/names.db
 const DB_DIR = path.join(os.homedir(), ".config", "checkname");
@@ -56,6 +57,7 @@ function initSchema(): void {
       name_id INTEGER REFERENCES names(id) ON DELETE CASCADE,
       checker TEXT NOT NULL,
       available INTEGER,
+      status TEXT,
       url TEXT,
       checked_at TEXT DEFAULT (datetime('now')),
       UNIQUE(name_id, checker)
@@ -77,7 +79,34 @@ function initSchema(): void {
       judged_at TEXT DEFAULT (datetime('now'))
     );
 
+    -- Cached checker results, shared by all commands
+    CREATE TABLE IF NOT EXISTS check_cache (
+      checker TEXT NOT NULL,
+      name TEXT NOT NULL,
+      result TEXT NOT NULL,
+      checked_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (checker, name)
+    );
+
+    -- Trademarks imported from office bulk data, for offline screening
+    CREATE TABLE IF NOT EXISTS trademarks (
+      office TEXT NOT NULL,
+      serial TEXT NOT NULL,
+      mark TEXT NOT NULL,
+      mark_key TEXT NOT NULL,
+      soundex TEXT,
+      metaphone TEXT,
+      status TEXT,
+      owner TEXT,
+      classes TEXT,
+      imported_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (office, serial)
+    );
+
     -- Indexes for common queries
+    CREATE INDEX IF NOT EXISTS idx_trademarks_key ON trademarks(mark_key);
+    CREATE INDEX IF NOT EXISTS idx_trademarks_soundex ON trademarks(soundex);
+    CREATE INDEX IF NOT EXISTS idx_trademarks_metaphone ON trademarks(metaphone);
     CREATE INDEX IF NOT EXISTS idx_names_project ON names(project_id);
     CREATE INDEX IF NOT EXISTS idx_scores_name ON scores(name_id);
     CREATE INDEX IF NOT EXISTS idx_scores_verdict ON scores(verdict);
@@ -100,6 +129,16 @@ function runMigrations(): void {
     // SQLite supports ALTER TABLE RENAME COLUMN since version 3.25.0
     db.exec("ALTER TABLE scores RENAME COLUMN meaning TO story");
   }
+
+  // Migration: add 'status' column to availability_checks
+  // Older rows keep status NULL and fall back to the 'available' flag
+  const checksInfo = db
+    .query<{ name: string }, []>("PRAGMA table_info(availability_checks)")
+    .all();
+
+  if (!checksInfo.some((col) => col.name === "status")) {
+    db.exec("ALTER TABLE availability_checks ADD COLUMN status TEXT");
+  }
 }
 
 // Project operations
@@ -218,30 +257,190 @@ export function getProjectNames(projectId: number): string[] {
 export function addAvailabilityCheck(
   nameId: number,
   checker: string,
-  available: boolean,
+  status: AvailabilityStatus,
   url?: string,
 ): void {
   const db = getDb();
   db.run(
-    `INSERT OR REPLACE INTO availability_checks (name_id, checker, available, url, checked_at)
-     VALUES (?, ?, ?, ?, datetime('now'))`,
-    [nameId, checker, available ? 1 : 0, url || null],
+    `INSERT OR REPLACE INTO availability_checks (name_id, checker, available, status, url, checked_at)
+     VALUES (?, ?, ?, ?, ?, datetime('now'))`,
+    [nameId, checker, status === "available" ? 1 : 0, status, url || null],
   );
 }
 
-export function getAvailability(
-  nameId: number,
-): Array<{ checker: string; available: boolean; url: string | null }> {
+export function getAvailability(nameId: number): Array<{
+  checker: string;
+  status: AvailabilityStatus;
+  available: boolean;
+  url: string | null;
+}> {
   const db = getDb();
   return db
     .query<
-      { checker: string; available: number; url: string | null },
+      {
+        checker: string;
+        available: number;
+        status: AvailabilityStatus | null;
+        url: string | null;
+      },
       [number]
     >(
-      "SELECT checker, available, url FROM availability_checks WHERE name_id = ?",
+      "SELECT checker, available, status, url FROM availability_checks WHERE name_id = ?",
     )
     .all(nameId)
-    .map((r) => ({ ...r, available: r.available === 1 }));
+    .map((r) => ({
+      ...r,
+      status: r.status ?? (r.available === 1 ? "available" : "taken"),
+      available: r.available === 1,
+    }));
+}
+
+// Check cache operations
+export function getCachedCheck(
+  checker: string,
+  name: string,
+  maxAgeSeconds: number,
+): { result: string; checkedAt: string } | null {
+  const db = getDb();
+  return db
+    .query<
+      { result: string; checkedAt: string },
+      [string, string, string]
+    >(
+      `SELECT result, checked_at as checkedAt FROM check_cache
+       WHERE checker = ? AND name = ? AND checked_at >= datetime('now', ?)`,
+    )
+    .get(checker, name.toLowerCase(), `-${Math.floor(maxAgeSeconds)} seconds`);
+}
+
+export function setCachedCheck(
+  checker: string,
+  name: string,
+  result: string,
+): void {
+  const db = getDb();
+  db.run(
+    `INSERT OR REPLACE INTO check_cache (checker, name, result, checked_at)
+     VALUES (?, ?, ?, datetime('now'))`,
+    [checker, name.toLowerCase(), result],
+  );
+}
+
+export function clearCheckCache(checker?: string): number {
+  const db = getDb();
+  const result = checker
+    ? db.run("DELETE FROM check_cache WHERE checker = ?", [checker])
+    : db.run("DELETE FROM check_cache");
+  return result.changes;
+}
+
+// Trademark operations
+export interface TrademarkRow {
+  office: string;
+  serial: string;
+  mark: string;
+  markKey: string;
+  soundex: string;
+  metaphone: string;
+  status: string | null;
+  owner: string | null;
+  classes: string; // Comma-separated Nice classes
+}
+
+export function addTrademarks(rows: TrademarkRow[]): void {
+  const db = getDb();
+  const insert = db.prepare(
+    `INSERT OR REPLACE INTO trademarks
+       (office, serial, mark, mark_key, soundex, metaphone, status, owner, classes)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  db.transaction(() => {
+    for (const row of rows) {
+      insert.run(
+        row.office,
+        row.serial,
+        row.mark,
+        row.markKey,
+        row.soundex,
+        row.metaphone,
+        row.status,
+        row.owner,
+        row.classes,
+      );
+    }
+  })();
+}
+
+const TRADEMARK_COLUMNS = `office, serial, mark, mark_key as markKey, soundex,
+       metaphone, status, owner, classes`;
+
+// Phonetic codes are coarse, so only this many non-exact candidates are read
+const MAX_TRADEMARK_CANDIDATES = 2000;
+
+// Every mark with exactly this key, plus (capped) candidates that match
+// phonetically or share the first two characters with a similar length.
+// Exact matches are queried on their own so the cap can't drop them.
+export function findTrademarkCandidates(
+  markKey: string,
+  soundex: string,
+  metaphone: string,
+): TrademarkRow[] {
+  const db = getDb();
+  const exact = db
+    .query<TrademarkRow, [string]>(
+      `SELECT ${TRADEMARK_COLUMNS} FROM trademarks WHERE mark_key = ?`,
+    )
+    .all(markKey);
+
+  // Range scan on the index: "ab" <= mark_key < "ac"
+  const prefix = markKey.slice(0, 2);
+  const prefixEnd =
+    prefix.slice(0, -1) +
+    String.fromCharCode(prefix.charCodeAt(prefix.length - 1) + 1);
+  const similar = db
+    .query<
+      TrademarkRow,
+      [string, string, string, string, string, number, number, number]
+    >(
+      `SELECT ${TRADEMARK_COLUMNS}
+       FROM trademarks
+       WHERE mark_key != ?
+         AND (soundex = ? OR metaphone = ?
+              OR (mark_key >= ? AND mark_key < ?
+                  AND length(mark_key) BETWEEN ? AND ?))
+       LIMIT ?`,
+    )
+    .all(
+      markKey,
+      soundex,
+      metaphone,
+      prefix,
+      prefixEnd,
+      markKey.length - 2,
+      markKey.length + 2,
+      MAX_TRADEMARK_CANDIDATES,
+    );
+
+  return [...exact, ...similar];
+}
+
+// Cheap probe for the checker; COUNT(*) scans millions of rows
+export function hasTrademarks(): boolean {
+  const db = getDb();
+  return db.query("SELECT 1 FROM trademarks LIMIT 1").get() !== null;
+}
+
+export function countTrademarks(): number {
+  const db = getDb();
+  const row = db
+    .query<{ count: number }, []>("SELECT COUNT(*) as count FROM trademarks")
+    .get();
+  return row?.count ?? 0;
+}
+
+export function clearTrademarks(): number {
+  const db = getDb();
+  return db.run("DELETE FROM trademarks").changes;
 }
 
 // Score operations
@@ -311,8 +510,9 @@ export function getLatestScore(nameId: number): {
     .get(nameId);
 }
 
-// Leaderboard query
+// Leaderboard query. Availability is scored by the caller, per profile.
 export interface LeaderboardEntry {
+  nameId: number;
   name: string;
   rationale: string | null;
   source: string | null;
@@ -324,28 +524,26 @@ export interface LeaderboardEntry {
   uniqueness: number;
   culturalRisk: number;
   weaknesses: string | null;
-  availabilityPercent: number;
 }
 
+// Every matching candidate, best first; the caller drops names that failed
+// a required checker before applying its limit
 export function getLeaderboard(
   projectId: number,
   options: {
     minScore?: number;
     verdicts?: string[];
-    limit?: number;
   } = {},
 ): LeaderboardEntry[] {
   const db = getDb();
-  const {
-    minScore = 0,
-    verdicts = ["strong", "consider", "reject"],
-    limit = 20,
-  } = options;
+  const { minScore = 0, verdicts = ["strong", "consider", "reject"] } =
+    options;
 
   const verdictsPlaceholder = verdicts.map(() => "?").join(", ");
 
   const query = `
     SELECT
+      n.id as nameId,
       n.name,
       n.rationale,
       n.source,
@@ -356,26 +554,19 @@ export function getLeaderboard(
       s.story,
       s.uniqueness,
       s.cultural_risk as culturalRisk,
-      s.weaknesses,
-      COALESCE(
-        100.0 * SUM(CASE WHEN ac.available = 1 THEN 1 ELSE 0 END) / NULLIF(COUNT(ac.id), 0),
-        0
-      ) as availabilityPercent
+      s.weaknesses
     FROM names n
     JOIN scores s ON s.name_id = n.id
-    LEFT JOIN availability_checks ac ON ac.name_id = n.id
     WHERE n.project_id = ?
       AND s.overall >= ?
       AND s.verdict IN (${verdictsPlaceholder})
       AND s.id = (SELECT MAX(id) FROM scores WHERE name_id = n.id)
-    GROUP BY n.id
     ORDER BY s.overall DESC, s.verdict = 'strong' DESC
-    LIMIT ?
   `;
 
   return db
-    .query<LeaderboardEntry, [number, number, ...string[], number]>(query)
-    .all(projectId, minScore, ...verdicts, limit);
+    .query<LeaderboardEntry, [number, number, ...string[]]>(query)
+    .all(projectId, minScore, ...verdicts);
 }
 
 // Delete a project and all its data
@@ -0,0 +1,161 @@
+import { readdirSync } from "fs";
+import path from "path";
+import type { ProfileCheckerEntry } from "./profiles";
+
+interface Ecosystem {
+  name: string;
+  // Marker file names, or a pattern matched against the directory listing
+  markers: string[] | RegExp;
+  checkers: ProfileCheckerEntry[];
+}
+
+// The registry a project publishes to is weighted and required, like in
+// the built-in language profiles
+const ECOSYSTEMS: Ecosystem[] = [
+  {
+    name: "Node.js",
+    markers: ["package.json"],
+    checkers: [{ name: "npm", weight: 3, required: true }, "npm-org"],
+  },
+  {
+    name: "Python",
+    markers: ["pyproject.toml", "setup.py", "setup.cfg"],
+    checkers: [{ name: "pypi", weight: 3, required: true }],
+  },
+  {
+    name: "Rust",
+    markers: ["Cargo.toml"],
+    checkers: [{ name: "crates.io", weight: 3, required: true }],
+  },
+  {
+    name: "Go",
+    markers: ["go.mod"],
+    checkers: [{ name: "go", weight: 3, required: true }],
+  },
+  {
+    name: ".NET",
+    markers: /\.(csproj|fsproj|vbproj)$/,
+    checkers: [{ name: "nuget", weight: 3, required: true }],
+  },
+  {
+    name: "PHP",
+    markers: ["composer.json"],
+    checkers: [{ name: "packagist", weight: 3, required: true }],
+  },
+  {
+    name: "Ruby",
+    markers: /^Gemfile$|\.gemspec$/,
+    checkers: [{ name: "rubygems", weight: 3, required: true }],
+  },
+  {
+    name: "Dart",
+    markers: ["pubspec.yaml"],
+    checkers: [{ name: "pub.dev", weight: 3, required: true }],
+  },
+  {
+    name: "JVM",
+    markers: ["pom.xml", "build.gradle", "build.gradle.kts"],
+    checkers: [{ name: "maven", weight: 3, required: true }, "maven-group"],
+  },
+  {
+    name: "Nix",
+    markers: ["flake.nix"],
+    checkers: ["nixpkgs"],
+  },
+];
+
+// Checked for every detected project, as in the language profiles
+const BASE_CHECKERS = ["github", "github-org", "domain-dev"];
+
+export interface DetectedEcosystem {
+  name: string;
+  marker: string; // File (or directory) that gave it away, from the root
+}
+
+export interface DetectedProject {
+  ecosystems: DetectedEcosystem[];
+  checkers: ProfileCheckerEntry[];
+}
+
+// A Homebrew tap is a homebrew-<name> repo, or one with Formula/ or Casks/
+function findTapMarker(root: string, entries: string[]): string | null {
+  if (path.basename(root).startsWith("homebrew-")) return path.basename(root);
+  return entries.find((e) => e === "Formula" || e === "Casks") ?? null;
+}
+
+// This tool's own checkout, where `bun run src/cli.ts` is usually run from
+const OWN_ROOT = path.resolve(import.meta.dir, "..");
+
+function listDir(dir: string): string[] {
+  try {
+    return readdirSync(dir);
+  } catch {
+    return [];
+  }
+}
+
+// The repository `dir` is in (the nearest directory with a .git), or `dir`
+// itself outside a repository
+function findProjectRoot(dir: string): string {
+  for (let current = dir; ; current = path.dirname(current)) {
+    if (listDir(current).includes(".git")) return current;
+    if (path.dirname(current) === current) return dir;
+  }
+}
+
+// Directories whose files can give the project away: `dir` and its parents
+// up to the root, then src/ and src/*/ (where .NET projects usually live)
+function markerDirs(dir: string, root: string): string[] {
+  const dirs: string[] = [];
+  for (let current = dir; ; current = path.dirname(current)) {
+    dirs.push(current);
+    if (current === root || path.dirname(current) === current) break;
+  }
+
+  const src = path.join(root, "src");
+  const srcEntries = listDir(src);
+  if (srcEntries.length > 0) {
+    dirs.push(src, ...srcEntries.map((e) => path.join(src, e)));
+  }
+  return [...new Set(dirs)];
+}
+
+// Ecosystems of the project `dir` belongs to, from the files between it
+// and the repository root. Returns null when nothing is recognized.
+export function detectProject(dir = process.cwd()): DetectedProject | null {
+  const root = findProjectRoot(path.resolve(dir));
+  if (root === OWN_ROOT) return null;
+
+  const listings = markerDirs(path.resolve(dir), root).map((d) => ({
+    dir: d,
+    entries: listDir(d),
+  }));
+  const rootEntries = listDir(root);
+
+  const ecosystems: DetectedEcosystem[] = [];
+  const checkers: ProfileCheckerEntry[] = [];
+  for (const ecosystem of ECOSYSTEMS) {
+    const { markers } = ecosystem;
+    let marker: string | undefined;
+    for (const { dir: markerDir, entries } of listings) {
+      const found = Array.isArray(markers)
+        ? markers.find((m) => entries.includes(m))
+        : entries.find((e) => markers.test(e));
+      if (!found) continue;
+      marker = path.relative(root, path.join(markerDir, found));
+      break;
+    }
+    if (!marker) continue;
+    ecosystems.push({ name: ecosystem.name, marker });
+    checkers.push(...ecosystem.checkers);
+  }
+
+  const tapMarker = findTapMarker(root, rootEntries);
+  if (tapMarker) {
+    ecosystems.push({ name: "Homebrew tap", marker: tapMarker });
+    checkers.push("homebrew");
+  }
+
+  if (ecosystems.length === 0) return null;
+  return { ecosystems, checkers: [...checkers, ...BASE_CHECKERS] };
+}
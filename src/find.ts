@@ -1,7 +1,16 @@
 import chalk from "chalk";
 import { generateNames, type GeneratedName } from "./generator";
-import { judgeNames, type NameScore } from "./judge";
-import type { Checker, CheckResult } from "./types";
+import {
+  judgeNames,
+  verdictIcon,
+  SCORE_COLUMNS,
+  SCORE_LEGEND,
+  type NameScore,
+} from "./judge";
+import type { Report } from "./report";
+import type { Checker, CheckResult, NotableEntry } from "./types";
+import { scoreAvailability, type AvailabilityScore } from "./profiles";
+import { checkWithCache } from "./cache";
 import {
   getOrCreateProject,
   getProjectNames,
@@ -15,7 +24,7 @@ export interface FindOptions {
   description: string;
   targetCount: number; // How many quality candidates to find
   batchSize: number; // Names to generate per iteration
-  threshold: number; // Availability threshold (0-1)
+  threshold: number; // Weighted availability threshold (0-1)
   minScore: number; // Minimum judge score (e.g., 3.5)
   verdicts: string[]; // Accepted verdicts: ["strong", "consider"]
   maxIterations: number; // Safety limit
@@ -35,9 +44,16 @@ export interface ScoredCandidate {
   availability: number;
   availableChecks: number;
   totalChecks: number;
+  taken: TakenEntry[];
   score: NameScore;
 }
 
+// A platform where the name is already registered
+export interface TakenEntry {
+  platform: string;
+  url?: string;
+}
+
 export interface FindResult {
   description: string;
   generateModel: string;
@@ -53,30 +69,21 @@ interface NameWithAvailability extends GeneratedName {
   availability: number;
   availableChecks: number;
   totalChecks: number;
+  // Required checkers where the name isn't available
+  failedRequired: string[];
+  taken: TakenEntry[];
+  // Notability hits for the judge, when the profile runs that checker
+  notable?: NotableEntry[];
 }
 
 async function quickCheck(
   name: string,
   checkers: Checker[],
-): Promise<{ available: number; total: number; results: CheckResult[] }> {
+): Promise<AvailabilityScore & { results: CheckResult[] }> {
   const results = await Promise.all(
-    checkers.map((checker) => checker.check(name)),
+    checkers.map((checker) => checkWithCache(checker, name)),
   );
-
-  let available = 0;
-  let total = 0;
-
-  for (const result of results) {
-    // Skip uniqueness checker from availability count
-    if (result.platform === "github-uniqueness") continue;
-
-    total++;
-    if (result.available && !result.error) {
-      available++;
-    }
-  }
-
-  return { available, total, results };
+  return { ...scoreAvailability(checkers, results), results };
 }
 
 export async function findNames(options: FindOptions): Promise<FindResult> {
@@ -160,10 +167,8 @@ export async function findNames(options: FindOptions): Promise<FindResult> {
 
     const availabilityResults = await Promise.all(
       generatedNames.map(async (name): Promise<NameWithAvailability> => {
-        const { available, total, results } = await quickCheck(
-          name.name,
-          checkers,
-        );
+        const { available, total, score, failedRequired, results } =
+          await quickCheck(name.name, checkers);
 
         // Store availability in database
         if (projectId) {
@@ -173,7 +178,7 @@ export async function findNames(options: FindOptions): Promise<FindResult> {
               addAvailabilityCheck(
                 nameId,
                 result.platform,
-                result.available && !result.error,
+                result.status,
                 result.url,
               );
             }
@@ -182,21 +187,30 @@ export async function findNames(options: FindOptions): Promise<FindResult> {
 
         return {
           ...name,
-          availability: total > 0 ? available / total : 0,
+          availability: score,
           availableChecks: available,
           totalChecks: total,
+          failedRequired,
+          taken: results
+            .filter((r) => r.status === "taken")
+            .map((r) => ({ platform: r.platform, url: r.url })),
+          notable: results.find((r) => r.platform === "notability")?.notable,
         };
       }),
     );
 
-    // Filter by availability threshold
+    // Filter by weighted availability threshold; a taken required check
+    // rejects the name outright
     const qualifiedNames = availabilityResults.filter(
-      (n) => n.availability >= threshold,
+      (n) => n.availability >= threshold && n.failedRequired.length === 0,
     );
+    const failedRequired = availabilityResults.filter(
+      (n) => n.failedRequired.length > 0,
+    ).length;
 
     log(
       chalk.dim(
-        `  ${qualifiedNames.length}/${generatedNames.length} names meet ${Math.round(threshold * 100)}% availability threshold`,
+        `  ${qualifiedNames.length}/${generatedNames.length} names meet ${Math.round(threshold * 100)}% availability threshold${failedRequired > 0 ? ` (${failedRequired} failed a required check)` : ""}`,
       ),
     );
 
@@ -213,6 +227,7 @@ export async function findNames(options: FindOptions): Promise<FindResult> {
         name: n.name,
         rationale: n.rationale,
         source: n.source,
+        notable: n.notable,
       })),
       description,
       model: judgeModel,
@@ -254,6 +269,7 @@ export async function findNames(options: FindOptions): Promise<FindResult> {
           availability: qualifiedName.availability,
           availableChecks: qualifiedName.availableChecks,
           totalChecks: qualifiedName.totalChecks,
+          taken: qualifiedName.taken,
           score,
         });
 
@@ -315,53 +331,62 @@ export async function findNames(options: FindOptions): Promise<FindResult> {
   };
 }
 
-export function generateFindReport(result: FindResult): string {
-  const lines: string[] = [];
-
-  lines.push(`# Project Name Candidates`);
-  lines.push("");
-  lines.push(
-    `${result.description} | ${result.candidates.length} found from ${result.totalGenerated} generated`,
+export function buildFindReport(result: FindResult): Report {
+  const taken = result.candidates.flatMap((c) =>
+    c.taken.map((t) => ({
+      name: c.name,
+      platform: t.platform,
+      entry: t.url ? { text: t.url, url: t.url } : "",
+    })),
   );
-  lines.push("");
 
-  // Compact table with scores
-  lines.push(
-    `| # | Name | Score | Typ | Mem | Story | Uniq | Risk | Avail | Verdict |`,
-  );
-  lines.push(
-    `|---|------|-------|-----|-----|-------|------|------|-------|---------|`,
-  );
-
-  for (let i = 0; i < result.candidates.length; i++) {
-    const c = result.candidates[i];
-    const verdictIcon =
-      c.score.verdict === "strong"
-        ? "✅"
-        : c.score.verdict === "consider"
-          ? "🤔"
-          : "❌";
-    lines.push(
-      `| ${i + 1} | **${c.name}** | ${c.score.overall.toFixed(1)} | ${c.score.typability} | ${c.score.memorability} | ${c.score.story} | ${c.score.uniqueness} | ${c.score.culturalRisk} | ${Math.round(c.availability * 100)}% | ${verdictIcon} |`,
-    );
-  }
-
-  lines.push("");
-
-  // Candidate details (rationale + weaknesses only)
-  for (let i = 0; i < result.candidates.length; i++) {
-    const c = result.candidates[i];
-    let detail = `**${c.name}**: ${c.rationale}`;
-    if (c.score.weaknesses) {
-      detail += ` ⚠️ ${c.score.weaknesses}`;
-    }
-    lines.push(detail);
-  }
-
-  lines.push("");
-  lines.push(
-    `_Scores: Typ=Typability, Mem=Memorability, Story=Metaphor/connection, Uniq=Uniqueness, Risk=Cultural (1=safe, 5=bad)_`,
-  );
-
-  return lines.join("\n");
+  return {
+    title: "Project Name Candidates",
+    subtitle: `${result.description} | ${result.candidates.length} found from ${result.totalGenerated} generated`,
+    tables: [
+      {
+        columns: [
+          { key: "rank", label: "#" },
+          { key: "name", label: "Name" },
+          { key: "overall", label: "Score" },
+          ...SCORE_COLUMNS,
+          { key: "availability", label: "Avail" },
+          { key: "verdict", label: "Verdict" },
+        ],
+        rows: result.candidates.map((c, i) => ({
+          ...c.score,
+          rank: i + 1,
+          name: { text: c.name, bold: true },
+          overall: c.score.overall.toFixed(1),
+          availability: `${Math.round(c.availability * 100)}%`,
+          verdict: `${verdictIcon(c.score.verdict)} ${c.score.verdict}`,
+        })),
+      },
+      // Only names that cleared the threshold get here, but they can still
+      // be taken on some platforms
+      ...(taken.length > 0
+        ? [
+            {
+              title: "Taken Elsewhere",
+              columns: [
+                { key: "name", label: "Name" },
+                { key: "platform", label: "Platform" },
+                { key: "entry", label: "Entry" },
+              ],
+              rows: taken,
+            },
+          ]
+        : []),
+    ],
+    // Candidate details (rationale + weaknesses only)
+    notes: result.candidates.map((c) => ({
+      label: c.name,
+      text: c.score.weaknesses
+        ? `${c.rationale} ⚠️ ${c.score.weaknesses}`
+        : c.rationale,
+    })),
+    footer: `Scores: ${SCORE_LEGEND}`,
+    data: result,
+    records: result.candidates,
+  };
 }
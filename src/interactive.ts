@@ -4,7 +4,10 @@ import {
   type GenerateOptions,
   type GeneratedName,
 } from "./generator";
+import type { Report } from "./report";
 import type { Checker } from "./types";
+import { scoreAvailability, type AvailabilityScore } from "./profiles";
+import { checkWithCache } from "./cache";
 
 // Simple readline interface for Bun
 async function prompt(question: string): Promise<string> {
@@ -29,22 +32,36 @@ interface InteractiveSession {
 async function quickCheck(
   name: string,
   checkers: Checker[],
-): Promise<{ available: number; total: number }> {
+): Promise<AvailabilityScore & { cached: number }> {
   const results = await Promise.all(
-    checkers.map((checker) => checker.check(name)),
+    checkers.map((checker) => checkWithCache(checker, name)),
   );
+  const cached = results.filter((r) => r.cached).length;
+  return { ...scoreAvailability(checkers, results), cached };
+}
 
-  let available = 0;
-  let total = 0;
-
-  for (const result of results) {
-    // Skip uniqueness checker in count
-    if (result.platform === "github-uniqueness") continue;
-    total++;
-    if (result.available && !result.error) available++;
-  }
+// "3/4 available (80%)", plus any required checks the name failed
+function formatAvailability(result: AvailabilityScore): string {
+  const pct = Math.round(result.score * 100);
+  const color =
+    result.failedRequired.length > 0
+      ? chalk.red
+      : pct >= 80
+        ? chalk.green
+        : pct >= 50
+          ? chalk.yellow
+          : chalk.red;
+  const required =
+    result.failedRequired.length > 0
+      ? `, required: ${result.failedRequired.join(", ")}`
+      : "";
+  return color(
+    `${result.available}/${result.total} available (${pct}%${required})`,
+  );
+}
 
-  return { available, total };
+function formatCachedCount(cached: number): string {
+  return cached > 0 ? chalk.dim(` (${cached} cached)`) : "";
 }
 
 function printNames(names: GeneratedName[], startIndex: number = 0) {
@@ -177,12 +194,9 @@ export async function runInteractiveMode(
         console.log(chalk.dim("\nChecking all names...\n"));
         for (let i = 0; i < session.allNames.length; i++) {
           const name = session.allNames[i].name;
-          const { available, total } = await quickCheck(name, session.checkers);
-          const pct = Math.round((available / total) * 100);
-          const color =
-            pct >= 80 ? chalk.green : pct >= 50 ? chalk.yellow : chalk.red;
+          const result = await quickCheck(name, session.checkers);
           console.log(
-            `  ${(i + 1).toString().padStart(2)}. ${chalk.bold(name)}: ${color(`${available}/${total} available (${pct}%)`)}`,
+            `  ${(i + 1).toString().padStart(2)}. ${chalk.bold(name)}: ${formatAvailability(result)}${formatCachedCount(result.cached)}`,
           );
         }
         continue;
@@ -200,12 +214,9 @@ export async function runInteractiveMode(
 
       const name = session.allNames[num - 1].name;
       console.log(chalk.dim(`\nChecking "${name}"...\n`));
-      const { available, total } = await quickCheck(name, session.checkers);
-      const pct = Math.round((available / total) * 100);
-      const color =
-        pct >= 80 ? chalk.green : pct >= 50 ? chalk.yellow : chalk.red;
+      const result = await quickCheck(name, session.checkers);
       console.log(
-        `  ${chalk.bold(name)}: ${color(`${available}/${total} available (${pct}%)`)}`,
+        `  ${chalk.bold(name)}: ${formatAvailability(result)}${formatCachedCount(result.cached)}`,
       );
       continue;
     }
@@ -279,9 +290,9 @@ export async function runUntilAvailable(
     sources?: string[];
     count: number;
     targetAvailable: number;
-    availabilityThreshold: number; // e.g., 0.8 = 80% of checks must pass
+    availabilityThreshold: number; // e.g., 0.8 = 80% of the weighted checks must pass
     checkers: Checker[];
-    json?: boolean;
+    quiet?: boolean; // No progress output or final listing
     excludedNames?: string[];
   },
 ): Promise<UntilAvailableResult> {
@@ -292,7 +303,7 @@ export async function runUntilAvailable(
   let iterations = 0;
   const maxIterations = 10;
 
-  if (!options.json) {
+  if (!options.quiet) {
     console.log(chalk.bold.underline("\nAuto-Generate Until Available\n"));
     console.log(
       chalk.dim(
@@ -312,7 +323,7 @@ export async function runUntilAvailable(
     iterations < maxIterations
   ) {
     iterations++;
-    if (!options.json) {
+    if (!options.quiet) {
       console.log(
         chalk.dim(
           `\nIteration ${iterations}: Generating ${options.count} names...\n`,
@@ -337,34 +348,27 @@ export async function runUntilAvailable(
       for (const nameObj of result.names) {
         if (qualifiedNames.length >= options.targetAvailable) break;
 
-        if (!options.json) {
+        if (!options.quiet) {
           process.stdout.write(chalk.dim(`  Checking ${nameObj.name}... `));
         }
-        const { available, total } = await quickCheck(
-          nameObj.name,
-          options.checkers,
-        );
-        const pct = available / total;
-
-        if (pct >= options.availabilityThreshold) {
-          if (!options.json) {
-            console.log(
-              chalk.green(
-                `✓ ${available}/${total} (${Math.round(pct * 100)}%)`,
-              ),
-            );
+        const result = await quickCheck(nameObj.name, options.checkers);
+
+        if (
+          result.score >= options.availabilityThreshold &&
+          result.failedRequired.length === 0
+        ) {
+          if (!options.quiet) {
+            console.log(`${chalk.green("✓")} ${formatAvailability(result)}`);
           }
-          qualifiedNames.push({ ...nameObj, availability: pct });
+          qualifiedNames.push({ ...nameObj, availability: result.score });
         } else {
-          if (!options.json) {
-            console.log(
-              chalk.red(`✗ ${available}/${total} (${Math.round(pct * 100)}%)`),
-            );
+          if (!options.quiet) {
+            console.log(`${chalk.red("✗")} ${formatAvailability(result)}`);
           }
         }
       }
     } catch (error) {
-      if (!options.json) {
+      if (!options.quiet) {
         console.error(
           chalk.red(`Error: ${error instanceof Error ? error.message : error}`),
         );
@@ -389,9 +393,7 @@ export async function runUntilAvailable(
   };
 
   // Final output
-  if (options.json) {
-    console.log(JSON.stringify(resultData, null, 2));
-  } else {
+  if (!options.quiet) {
     console.log(chalk.bold.underline("\n\nQualified Names:\n"));
     if (qualifiedNames.length === 0) {
       console.log(chalk.yellow("No names met the availability threshold."));
@@ -413,3 +415,29 @@ export async function runUntilAvailable(
 
   return resultData;
 }
+
+export function buildUntilAvailableReport(result: UntilAvailableResult): Report {
+  return {
+    title: "Qualified Names",
+    subtitle: `${result.description} | ${result.qualifiedNames.length} of ${result.totalGenerated} generated names with ≥${Math.round(result.threshold * 100)}% availability`,
+    tables: [
+      {
+        columns: [
+          { key: "name", label: "Name" },
+          { key: "source", label: "Source" },
+          { key: "availability", label: "Avail" },
+          { key: "rationale", label: "Rationale" },
+        ],
+        rows: result.qualifiedNames.map((n) => ({
+          name: { text: n.name, bold: true },
+          source: n.source,
+          availability: `${Math.round(n.availability * 100)}%`,
+          rationale: n.rationale,
+        })),
+      },
+    ],
+    footer: `Model: ${result.model} | Checkers: ${result.profile.join(", ")}`,
+    data: result,
+    records: result.qualifiedNames,
+  };
+}
@@ -1,4 +1,6 @@
 import { callOpenRouter, getTemperature } from "./openrouter";
+import type { Report } from "./report";
+import type { NotableEntry } from "./types";
 import path from "path";
 
 export interface NameScore {
@@ -112,8 +114,23 @@ function parseJudgeResponse(response: string): NameScore[] {
   return scores;
 }
 
+// Existing notable uses of a name, for the uniqueness score
+function formatNotability(notable: NotableEntry[]): string {
+  const exact = notable.filter((n) => n.exact).slice(0, 3);
+  if (exact.length === 0) return "no Wikipedia/Wikidata entry with this name";
+  return `already known as ${exact
+    .map((n) => (n.description ? `${n.title} (${n.description})` : n.title))
+    .join("; ")}`;
+}
+
 export async function judgeNames(options: {
-  names: Array<{ name: string; rationale?: string; source?: string }>;
+  names: Array<{
+    name: string;
+    rationale?: string;
+    source?: string;
+    // Notability checker hits, when the name was looked up
+    notable?: NotableEntry[];
+  }>;
   description: string;
   model?: string;
 }): Promise<JudgeResult> {
@@ -127,6 +144,9 @@ export async function judgeNames(options: {
       let line = `- **${n.name}**`;
       if (n.source) line += ` [${n.source}]`;
       if (n.rationale) line += `: ${n.rationale}`;
+      if (n.notable) {
+        line += `\n  - Notability: ${formatNotability(n.notable)}`;
+      }
       return line;
     })
     .join("\n");
@@ -163,44 +183,54 @@ export async function judgeNames(options: {
   };
 }
 
-export function generateMarkdownReport(result: JudgeResult): string {
-  const lines: string[] = [];
-
-  lines.push(`# Name Evaluation Report`);
-  lines.push("");
-  lines.push(
-    `${result.description} | ✅ ${result.summary.strong} strong, 🤔 ${result.summary.consider} consider, ❌ ${result.summary.reject} reject`,
-  );
-  lines.push("");
-
-  // Scoring table
-  lines.push(
-    "| Name | Typ | Mem | Story | Uniq | Risk | Score | Verdict | Weaknesses |",
-  );
-  lines.push(
-    "|------|-----|-----|-------|------|------|-------|---------|------------|",
-  );
+const VERDICT_ICONS: Record<NameScore["verdict"], string> = {
+  strong: "✅",
+  consider: "🤔",
+  reject: "❌",
+};
+
+// Score columns shared by the judge and find reports
+export const SCORE_COLUMNS = [
+  { key: "typability", label: "Typ" },
+  { key: "memorability", label: "Mem" },
+  { key: "story", label: "Story" },
+  { key: "uniqueness", label: "Uniq" },
+  { key: "culturalRisk", label: "Risk" },
+];
+
+export const SCORE_LEGEND =
+  "Typ=Typability, Mem=Memorability, Story=Metaphor/connection, Uniq=Uniqueness, Risk=Cultural (1=safe, 5=bad)";
+
+export function verdictIcon(verdict: NameScore["verdict"]): string {
+  return VERDICT_ICONS[verdict] ?? verdict;
+}
 
+export function buildJudgeReport(result: JudgeResult): Report {
   // Sort by overall score descending
   const sorted = [...result.scores].sort((a, b) => b.overall - a.overall);
 
-  for (const score of sorted) {
-    const verdictEmoji =
-      score.verdict === "strong"
-        ? "✅"
-        : score.verdict === "consider"
-          ? "🤔"
-          : "❌";
-
-    lines.push(
-      `| **${score.name}** | ${score.typability} | ${score.memorability} | ${score.story} | ${score.uniqueness} | ${score.culturalRisk} | ${score.overall.toFixed(1)} | ${verdictEmoji} | ${score.weaknesses} |`,
-    );
-  }
-
-  lines.push("");
-  lines.push(
-    `_Typ=Typability, Mem=Memorability, Story=Metaphor/connection, Uniq=Uniqueness, Risk=Cultural (1=safe, 5=bad)_`,
-  );
-
-  return lines.join("\n");
+  return {
+    title: "Name Evaluation Report",
+    subtitle: `${result.description} | ✅ ${result.summary.strong} strong, 🤔 ${result.summary.consider} consider, ❌ ${result.summary.reject} reject`,
+    tables: [
+      {
+        columns: [
+          { key: "name", label: "Name" },
+          ...SCORE_COLUMNS,
+          { key: "overall", label: "Score" },
+          { key: "verdict", label: "Verdict" },
+          { key: "weaknesses", label: "Weaknesses" },
+        ],
+        rows: sorted.map((score) => ({
+          ...score,
+          name: { text: score.name, bold: true },
+          overall: score.overall.toFixed(1),
+          verdict: `${verdictIcon(score.verdict)} ${score.verdict}`,
+        })),
+      },
+    ],
+    footer: SCORE_LEGEND,
+    data: result,
+    records: sorted,
+  };
 }
@@ -1,5 +1,5 @@
-import { parse } from "yaml";
-import path from "path";
+import builtinModels from "../config/models.yaml";
+import { loadConfig } from "./config";
 
 const OPENROUTER_API_URL = "https://openrouter.ai/api/v1/chat/completions";
 
@@ -23,7 +23,7 @@ export interface OpenRouterResponse {
   };
 }
 
-interface ModelConfig {
+export interface ModelConfig {
   id: string;
   description: string;
 }
@@ -46,9 +46,14 @@ let modelsConfig: ModelsConfig | null = null;
 async function loadModelsConfig(): Promise<ModelsConfig> {
   if (modelsConfig) return modelsConfig;
 
-  const configPath = path.join(import.meta.dir, "..", "config", "models.yaml");
-  const content = await Bun.file(configPath).text();
-  modelsConfig = parse(content) as ModelsConfig;
+  // Bundled into the compiled binary; aliases from the user and project
+  // config are added on top
+  const builtin = builtinModels as ModelsConfig;
+  const config = await loadConfig();
+  modelsConfig = {
+    ...builtin,
+    models: { ...builtin.models, ...config.models },
+  };
   return modelsConfig;
 }
 
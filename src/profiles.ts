@@ -1,48 +1,185 @@
-import { parse } from "yaml";
-import { resolve, dirname } from "path";
-import { fileURLToPath } from "url";
-import { allCheckers } from "./checkers";
-import type { Checker } from "./types";
+import chalk from "chalk";
+import builtinProfiles from "../config/profiles.yaml";
+import { allCheckers, getCheckersByNames } from "./checkers";
+import { loadConfig } from "./config";
+import { detectProject } from "./detect";
+import {
+  SIGNAL_PLATFORMS,
+  type AvailabilityStatus,
+  type Checker,
+} from "./types";
+
+// A checker name, or a name with a weight and/or required flag
+export type ProfileCheckerEntry =
+  | string
+  | { name: string; weight?: number; required?: boolean };
 
 interface ProfileConfig {
   description: string;
-  checkers: string[];
+  checkers: ProfileCheckerEntry[];
+}
+
+// A profile as written in a config file. With `extends`, the checkers are
+// added to (or replace same-named entries of) the parent's, and `skip`
+// drops parent checkers.
+export interface ProfileDefinition {
+  description?: string;
+  extends?: string;
+  checkers?: ProfileCheckerEntry[];
+  skip?: string[];
 }
 
 interface ProfilesFile {
-  profiles: Record<string, ProfileConfig>;
+  profiles: Record<string, ProfileDefinition>;
   default: string;
 }
 
-const PROFILES_FILE = "config/profiles.yaml";
+// Bundled so the compiled binary doesn't need the checkout
+const builtin = builtinProfiles as ProfilesFile;
+
+type ProfileLayer = Record<string, ProfileDefinition>;
+
+// Profile built from the project in the working directory
+export const AUTO_PROFILE = "auto";
+
+function detectedProfile(): ProfileConfig | null {
+  const detected = detectProject();
+  if (!detected) return null;
+  return {
+    description: `Detected: ${detected.ecosystems.map((e) => `${e.name} (${e.marker})`).join(", ")}`,
+    checkers: detected.checkers,
+  };
+}
+
+// Built-in profiles first, then the user and project config
+let cachedLayers: ProfileLayer[] | null = null;
+
+async function loadProfileLayers(): Promise<ProfileLayer[]> {
+  if (cachedLayers) return cachedLayers;
+
+  const config = await loadConfig();
+  cachedLayers = [
+    builtin.profiles,
+    ...config.layers.map(({ config }) => config.profiles ?? {}),
+  ];
+  return cachedLayers;
+}
+
+// Resolve a profile from the top `depth` layers. A profile that extends
+// its own name builds on the definition from a lower layer.
+function resolveProfile(
+  layers: ProfileLayer[],
+  name: string,
+  depth = layers.length,
+  seen: string[] = [],
+): ProfileConfig | null {
+  const index = layers
+    .slice(0, depth)
+    .findLastIndex((layer) => name in layer);
+  if (index === -1) {
+    return name === AUTO_PROFILE ? detectedProfile() : null;
+  }
 
-let cachedProfiles: ProfilesFile | null = null;
+  const key = `${index}:${name}`;
+  if (seen.includes(key)) {
+    throw new Error(`Profile ${name} extends itself`);
+  }
+  const definition = layers[index]![name]!;
+  if (!definition.extends) {
+    return {
+      description: definition.description ?? "",
+      checkers: definition.checkers ?? [],
+    };
+  }
 
-async function loadProfiles(): Promise<ProfilesFile> {
-  if (cachedProfiles) return cachedProfiles;
+  const parent = resolveProfile(
+    layers,
+    definition.extends,
+    definition.extends === name ? index : layers.length,
+    [...seen, key],
+  );
+  if (!parent) {
+    throw new Error(
+      `Profile ${name} extends unknown profile: ${definition.extends}`,
+    );
+  }
 
-  const currentDir = dirname(fileURLToPath(import.meta.url));
-  const projectRoot = resolve(currentDir, "..");
-  const profilesPath = resolve(projectRoot, PROFILES_FILE);
+  const skip = new Set((definition.skip ?? []).map((n) => n.toLowerCase()));
+  const own = new Map(
+    (definition.checkers ?? []).map((e) => [
+      profileCheckerName(e).toLowerCase(),
+      e,
+    ]),
+  );
+  const checkers = parent.checkers
+    .map((e) => own.get(profileCheckerName(e).toLowerCase()) ?? e)
+    .filter((e) => !skip.has(profileCheckerName(e).toLowerCase()));
+  const inherited = new Set(
+    checkers.map((e) => profileCheckerName(e).toLowerCase()),
+  );
+  checkers.push(...[...own].filter(([n]) => !inherited.has(n)).map(([, e]) => e));
 
-  const content = await Bun.file(profilesPath).text();
-  cachedProfiles = parse(content) as ProfilesFile;
-  return cachedProfiles;
+  return {
+    description: definition.description ?? parent.description,
+    checkers,
+  };
 }
 
 export async function getProfile(name: string): Promise<ProfileConfig | null> {
-  const profiles = await loadProfiles();
-  return profiles.profiles[name] || null;
+  const layers = await loadProfileLayers();
+  return resolveProfile(layers, name);
 }
 
+// The configured default, else the auto profile when the working
+// directory is a recognized project, else the built-in default
 export async function getDefaultProfileName(): Promise<string> {
-  const profiles = await loadProfiles();
-  return profiles.default;
+  const config = await loadConfig();
+  if (config.default) return config.default;
+  return detectProject() ? AUTO_PROFILE : builtin.default;
 }
 
 export async function listProfiles(): Promise<Record<string, ProfileConfig>> {
-  const profiles = await loadProfiles();
-  return profiles.profiles;
+  const layers = await loadProfileLayers();
+  const names = new Set(layers.flatMap((l) => Object.keys(l)));
+  const profiles = Object.fromEntries(
+    [...names].map((name) => [name, resolveProfile(layers, name)!]),
+  );
+  const detected = profiles[AUTO_PROFILE] ?? detectedProfile();
+  return detected ? { ...profiles, [AUTO_PROFILE]: detected } : profiles;
+}
+
+export function profileCheckerName(entry: ProfileCheckerEntry): string {
+  return typeof entry === "string" ? entry : entry.name;
+}
+
+// "npm (x3, required)" for listings
+export function formatProfileChecker(entry: ProfileCheckerEntry): string {
+  if (typeof entry === "string") return entry;
+  const flags = [
+    entry.weight !== undefined ? `x${entry.weight}` : "",
+    entry.required ? "required" : "",
+  ].filter(Boolean);
+  return flags.length > 0 ? `${entry.name} (${flags.join(", ")})` : entry.name;
+}
+
+const warnedProfiles = new Set<string>();
+
+// A profile can name checkers that aren't registered, e.g. a domain-<tld>
+// whose TLD was removed from `domains:`. They're skipped, but say so.
+function warnUnknownCheckers(profileName: string, names: string[]): void {
+  if (warnedProfiles.has(profileName)) return;
+  warnedProfiles.add(profileName);
+
+  const known = new Set(allCheckers.map((c) => c.name.toLowerCase()));
+  const unknown = names.filter((n) => !known.has(n));
+  if (unknown.length === 0) return;
+
+  const hint = unknown.some((n) => n.startsWith("domain-"))
+    ? " (domain checkers come from `domains:` in config/checkers.yaml or your config)"
+    : "";
+  console.warn(
+    `Profile '${profileName}' skips unknown checkers: ${unknown.join(", ")}${hint}`,
+  );
 }
 
 export async function getCheckersForProfile(profileName: string): Promise<Checker[]> {
@@ -51,13 +188,16 @@ export async function getCheckersForProfile(profileName: string): Promise<Checke
     throw new Error(`Unknown profile: ${profileName}`);
   }
 
-  const checkerNames = profile.checkers.map((n) => n.toLowerCase());
-  return allCheckers.filter((c) => checkerNames.includes(c.name.toLowerCase()));
-}
-
-export function getCheckersByNames(names: string[]): Checker[] {
-  const lowerNames = names.map((n) => n.toLowerCase());
-  return allCheckers.filter((c) => lowerNames.includes(c.name.toLowerCase()));
+  const entries = new Map(
+    profile.checkers.map((e) => [profileCheckerName(e).toLowerCase(), e]),
+  );
+  warnUnknownCheckers(profileName, [...entries.keys()]);
+  return allCheckers.flatMap((c) => {
+    const entry = entries.get(c.name.toLowerCase());
+    if (entry === undefined) return [];
+    if (typeof entry === "string") return [c];
+    return [{ ...c, weight: entry.weight, required: entry.required }];
+  });
 }
 
 export async function resolveCheckers(options: {
@@ -76,5 +216,64 @@ export async function resolveCheckers(options: {
 
   // Use profile (or default)
   const profileName = options.profile || (await getDefaultProfileName());
+  if (!options.profile && profileName === AUTO_PROFILE) {
+    const profile = await getProfile(AUTO_PROFILE);
+    console.error(
+      chalk.dim(
+        `${profile?.description}: using the auto profile (pass --profile to override)`,
+      ),
+    );
+  }
   return getCheckersForProfile(profileName);
 }
+
+export interface AvailabilityScore {
+  available: number; // Checks that came back available
+  total: number; // Checks counted (signal checkers and manual checks skipped)
+  score: number; // Weighted share of available checks (0-1)
+  failedRequired: string[]; // Required checkers where the name isn't available
+}
+
+// Weighted availability of a name. Results are matched to checkers by
+// name; unknown and rate-limited results count against the name. Results
+// from checkers outside `checkers` (e.g. stored checks from another
+// profile) are ignored.
+export function scoreAvailability(
+  checkers: Checker[],
+  results: Array<{ platform: string; status: AvailabilityStatus }>,
+): AvailabilityScore {
+  const byName = new Map(checkers.map((c) => [c.name, c]));
+  let available = 0;
+  let total = 0;
+  let availableWeight = 0;
+  let totalWeight = 0;
+  const failedRequired: string[] = [];
+
+  for (const result of results) {
+    if (SIGNAL_PLATFORMS.has(result.platform)) continue;
+    // Manual lookups can't be scored (or enforced when required)
+    if (result.status === "manual") continue;
+
+    const checker = byName.get(result.platform);
+    if (!checker) continue;
+    const isAvailable = result.status === "available";
+    if (checker.required && !isAvailable) {
+      failedRequired.push(result.platform);
+    }
+
+    const weight = checker.weight ?? 1;
+    total++;
+    totalWeight += weight;
+    if (isAvailable) {
+      available++;
+      availableWeight += weight;
+    }
+  }
+
+  return {
+    available,
+    total,
+    score: totalWeight > 0 ? availableWeight / totalWeight : 0,
+    failedRequired,
+  };
+}
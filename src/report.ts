@@ -0,0 +1,278 @@
+import path from "path";
+import type { AvailabilityStatus } from "./types";
+
+// `table` is each command's own terminal output; the rest are rendered
+// from a Report
+export const OUTPUT_FORMATS = [
+  "table",
+  "json",
+  "ndjson",
+  "csv",
+  "markdown",
+  "html",
+] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export type ReportCell =
+  | string
+  | number
+  | null
+  | undefined
+  | {
+      text: string;
+      url?: string;
+      bold?: boolean;
+      status?: AvailabilityStatus; // Colors the cell in HTML
+    };
+
+export interface ReportTable {
+  title?: string;
+  columns: Array<{ key: string; label: string }>;
+  rows: Array<Record<string, ReportCell>>;
+}
+
+export interface Report {
+  title: string;
+  subtitle?: string;
+  tables: ReportTable[]; // CSV has the first table only
+  notes?: Array<{ label: string; text: string }>;
+  footer?: string;
+  data: unknown; // --format json
+  records: unknown[]; // --format ndjson, one per line
+}
+
+// --format, with the older --json (and check's --csv) as shorthands
+export function resolveOutputFormat(options: {
+  format?: string;
+  json?: boolean;
+  csv?: boolean;
+}): OutputFormat {
+  if (options.format) {
+    const format = options.format.toLowerCase();
+    if (!(OUTPUT_FORMATS as readonly string[]).includes(format)) {
+      throw new Error(
+        `Unknown format: ${options.format} (expected one of ${OUTPUT_FORMATS.join(", ")})`,
+      );
+    }
+    return format as OutputFormat;
+  }
+  if (options.json) return "json";
+  if (options.csv) return "csv";
+  return "table";
+}
+
+// Format for a report file, from its extension (markdown otherwise)
+export function formatForFile(file: string): Exclude<OutputFormat, "table"> {
+  switch (path.extname(file).toLowerCase()) {
+    case ".html":
+    case ".htm":
+      return "html";
+    case ".json":
+      return "json";
+    case ".ndjson":
+    case ".jsonl":
+      return "ndjson";
+    case ".csv":
+      return "csv";
+    default:
+      return "markdown";
+  }
+}
+
+function cellText(cell: ReportCell): string {
+  if (cell === null || cell === undefined) return "";
+  if (typeof cell === "object") return cell.text;
+  return String(cell);
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+function renderCsv(report: Report): string {
+  const table = report.tables[0];
+  if (!table) return "";
+  const lines = [table.columns.map((c) => csvField(c.label)).join(",")];
+  for (const row of table.rows) {
+    lines.push(
+      table.columns.map((c) => csvField(cellText(row[c.key]))).join(","),
+    );
+  }
+  return lines.join("\n");
+}
+
+function markdownCell(cell: ReportCell): string {
+  let text = cellText(cell).replaceAll("|", "\\|").replace(/\s*\n\s*/g, " ");
+  if (typeof cell === "object" && cell !== null) {
+    if (cell.url) text = `[${text}](${cell.url})`;
+    if (cell.bold) text = `**${text}**`;
+  }
+  return text;
+}
+
+function renderMarkdown(report: Report): string {
+  const blocks: string[] = [`# ${report.title}`];
+  if (report.subtitle) blocks.push(report.subtitle);
+
+  for (const table of report.tables) {
+    const lines: string[] = [];
+    if (table.title) lines.push(`## ${table.title}`, "");
+    lines.push(`| ${table.columns.map((c) => c.label).join(" | ")} |`);
+    lines.push(
+      `|${table.columns.map((c) => "-".repeat(c.label.length + 2)).join("|")}|`,
+    );
+    for (const row of table.rows) {
+      lines.push(
+        `| ${table.columns.map((c) => markdownCell(row[c.key])).join(" | ")} |`,
+      );
+    }
+    blocks.push(lines.join("\n"));
+  }
+
+  if (report.notes?.length) {
+    blocks.push(
+      report.notes.map((n) => `**${n.label}**: ${n.text}`).join("\n"),
+    );
+  }
+  if (report.footer) blocks.push(`_${report.footer}_`);
+
+  return blocks.join("\n\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+function htmlCell(cell: ReportCell): string {
+  const text = escapeHtml(cellText(cell));
+  if (typeof cell === "number") {
+    return `<td class="num" data-value="${cell}">${text}</td>`;
+  }
+  if (typeof cell !== "object" || cell === null) return `<td>${text}</td>`;
+
+  let content = cell.url
+    ? `<a href="${escapeHtml(cell.url)}" target="_blank" rel="noopener">${text}</a>`
+    : text;
+  if (cell.bold) content = `<strong>${content}</strong>`;
+  const className = cell.status ? ` class="status-${cell.status}"` : "";
+  return `<td${className}>${content}</td>`;
+}
+
+const HTML_STYLE = `
+body { font: 14px/1.5 system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+h1 { margin-bottom: 0.25rem; }
+.subtitle, .footer, .generated { color: #656d76; }
+.scroll { overflow-x: auto; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #d0d7de; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; cursor: pointer; user-select: none; white-space: nowrap; }
+th[data-order="asc"]::after { content: " ▲"; }
+th[data-order="desc"]::after { content: " ▼"; }
+td.num { text-align: right; }
+.status-available { background: #dafbe1; }
+.status-taken { background: #ffebe9; }
+.status-unknown, .status-rate-limited { background: #fff8c5; }
+.status-invalid { color: #656d76; }
+.status-manual { background: #ddf4ff; }
+a { color: #0969da; }
+`;
+
+// Click a column header to sort by it, again to reverse
+const HTML_SCRIPT = `
+document.querySelectorAll("table.sortable th").forEach((th) => {
+  th.addEventListener("click", () => {
+    const table = th.closest("table");
+    const index = [...th.parentNode.children].indexOf(th);
+    const asc = th.dataset.order !== "asc";
+    table.querySelectorAll("th").forEach((h) => delete h.dataset.order);
+    th.dataset.order = asc ? "asc" : "desc";
+    const value = (row) => {
+      const cell = row.children[index];
+      return cell.dataset.value ?? cell.textContent.trim();
+    };
+    const body = table.tBodies[0];
+    const rows = [...body.rows].sort((a, b) => {
+      const x = value(a);
+      const y = value(b);
+      const nx = parseFloat(x);
+      const ny = parseFloat(y);
+      const cmp = isNaN(nx) || isNaN(ny) ? x.localeCompare(y) : nx - ny;
+      return asc ? cmp : -cmp;
+    });
+    body.append(...rows);
+  });
+});
+`;
+
+// A single file with inline styles and script, so it can be shared as is
+function renderHtml(report: Report): string {
+  const parts: string[] = [`<h1>${escapeHtml(report.title)}</h1>`];
+  if (report.subtitle) {
+    parts.push(`<p class="subtitle">${escapeHtml(report.subtitle)}</p>`);
+  }
+
+  for (const table of report.tables) {
+    if (table.title) parts.push(`<h2>${escapeHtml(table.title)}</h2>`);
+    const head = table.columns
+      .map((c) => `<th>${escapeHtml(c.label)}</th>`)
+      .join("");
+    const body = table.rows
+      .map(
+        (row) =>
+          `<tr>${table.columns.map((c) => htmlCell(row[c.key])).join("")}</tr>`,
+      )
+      .join("\n");
+    parts.push(
+      `<div class="scroll"><table class="sortable">\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table></div>`,
+    );
+  }
+
+  for (const note of report.notes ?? []) {
+    parts.push(
+      `<p><strong>${escapeHtml(note.label)}</strong>: ${escapeHtml(note.text)}</p>`,
+    );
+  }
+  if (report.footer) {
+    parts.push(`<p class="footer"><em>${escapeHtml(report.footer)}</em></p>`);
+  }
+  parts.push(
+    `<p class="generated">Generated by checkname on ${new Date().toISOString().slice(0, 16).replace("T", " ")} UTC</p>`,
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+${parts.join("\n")}
+<script>${HTML_SCRIPT}</script>
+</body>
+</html>`;
+}
+
+export function renderReport(
+  report: Report,
+  format: Exclude<OutputFormat, "table">,
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(report.data, null, 2);
+    case "ndjson":
+      return report.records.map((r) => JSON.stringify(r)).join("\n");
+    case "csv":
+      return renderCsv(report);
+    case "markdown":
+      return renderMarkdown(report);
+    case "html":
+      return renderHtml(report);
+  }
+}
@@ -0,0 +1,250 @@
+import { addTrademarks, type TrademarkRow } from "./db";
+import { markKey } from "./checkers/trademark";
+import { soundex, metaphone } from "./checkers/phonetic";
+
+// Only software marks are screened: Nice classes 9 and 42
+const SOFTWARE_CLASSES = new Set([9, 42]);
+
+// Rows written per transaction
+const BATCH_SIZE = 5000;
+
+export interface ImportStats {
+  imported: number;
+  skipped: number;
+}
+
+interface RawMark {
+  serial: string;
+  mark: string;
+  status: string;
+  owner: string;
+  classes: number[];
+}
+
+// USPTO status codes: 6xx abandoned, 71x-79x cancelled/expired, 9xx dead
+// misc. Pending applications (< 600) and registrations (700, 8xx) are live.
+function isLiveStatus(status: string): boolean {
+  const code = parseInt(status, 10);
+  if (!isNaN(code)) {
+    if (code >= 600 && code < 700) return false;
+    if (code >= 710 && code < 800) return false;
+    return code < 900;
+  }
+  return !/dead|abandon|cancel|expire|withdrawn|refused/i.test(status);
+}
+
+function toRow(raw: RawMark): TrademarkRow | null {
+  const key = markKey(raw.mark);
+  if (!raw.serial || !key) return null;
+  if (raw.status && !isLiveStatus(raw.status)) return null;
+  // Keep marks without class data, they can't be ruled out
+  if (
+    raw.classes.length > 0 &&
+    !raw.classes.some((c) => SOFTWARE_CLASSES.has(c))
+  ) {
+    return null;
+  }
+
+  return {
+    office: "USPTO",
+    serial: raw.serial,
+    mark: raw.mark,
+    markKey: key,
+    soundex: soundex(raw.mark),
+    metaphone: metaphone(raw.mark),
+    status: raw.status || null,
+    owner: raw.owner || null,
+    classes: raw.classes.join(","),
+  };
+}
+
+// "009", "IC 042", "9;42" -> [9, 42]
+function parseClasses(value: string): number[] {
+  return (value.match(/\d+/g) ?? [])
+    .map((c) => parseInt(c, 10))
+    .filter((c) => c >= 1 && c <= 45);
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+function xmlText(block: string, tag: string): string {
+  const match = block.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXml(match[1]!) : "";
+}
+
+// One <case-file> from the USPTO daily/annual XML (trademark applications)
+function parseCaseFile(block: string): RawMark {
+  const classes = [
+    ...block.matchAll(/<international-code>([^<]*)<\/international-code>/g),
+  ].flatMap((m) => parseClasses(m[1]!));
+
+  return {
+    serial: xmlText(block, "serial-number"),
+    mark: xmlText(block, "mark-identification"),
+    status: xmlText(block, "status-code"),
+    owner: xmlText(block, "party-name"),
+    classes,
+  };
+}
+
+async function* readXmlMarks(file: Blob): AsyncGenerator<RawMark> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  // Stream the file, the bulk dumps are several GB
+  for await (const chunk of file.stream()) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let end = buffer.indexOf("</case-file>");
+    while (end !== -1) {
+      const start = buffer.lastIndexOf("<case-file>", end);
+      if (start !== -1) yield parseCaseFile(buffer.slice(start, end));
+      buffer = buffer.slice(end + "</case-file>".length);
+      end = buffer.indexOf("</case-file>");
+    }
+  }
+}
+
+// Minimal streaming CSV reader (quoted fields may contain commas/newlines)
+async function* readCsvRecords(file: Blob): AsyncGenerator<string[]> {
+  const decoder = new TextDecoder();
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  let pendingQuote = false;
+
+  for await (const chunk of file.stream()) {
+    for (const char of decoder.decode(chunk, { stream: true })) {
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          // Escaped quote inside a quoted field
+          field += '"';
+          continue;
+        }
+        quoted = false;
+      }
+
+      if (quoted) {
+        if (char === '"') pendingQuote = true;
+        else field += char;
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ",") {
+        record.push(field);
+        field = "";
+      } else if (char === "\n") {
+        record.push(field.replace(/\r$/, ""));
+        yield record;
+        record = [];
+        field = "";
+      } else {
+        field += char;
+      }
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    yield record;
+  }
+}
+
+// Header names accepted for each field (USPTO Case Files dataset and
+// simple hand-made exports)
+const CSV_COLUMNS: Record<keyof RawMark, string[]> = {
+  serial: ["serial_no", "serial_number", "serial"],
+  mark: ["mark_id_char", "mark_identification", "wordmark", "mark"],
+  status: ["cfh_status_cd", "status_code", "status"],
+  owner: ["own_name", "owner_name", "party_name", "owner"],
+  classes: ["intl_class_cd", "intl_class", "classes", "class"],
+};
+
+async function* readCsvMarks(file: Blob): AsyncGenerator<RawMark> {
+  let columns: Partial<Record<keyof RawMark, number>> | null = null;
+
+  for await (const record of readCsvRecords(file)) {
+    if (!columns) {
+      const header = record.map((h) => h.trim().toLowerCase());
+      columns = {};
+      for (const [field, names] of Object.entries(CSV_COLUMNS)) {
+        const index = header.findIndex((h) => names.includes(h));
+        if (index !== -1) columns[field as keyof RawMark] = index;
+      }
+      if (columns.serial === undefined || columns.mark === undefined) {
+        throw new Error(
+          `CSV needs serial and mark columns (e.g. ${CSV_COLUMNS.serial[0]}, ${CSV_COLUMNS.mark[0]})`,
+        );
+      }
+      continue;
+    }
+
+    const get = (field: keyof RawMark) => {
+      const index = columns![field];
+      return index === undefined ? "" : (record[index] ?? "").trim();
+    };
+    yield {
+      serial: get("serial"),
+      mark: get("mark"),
+      status: get("status"),
+      owner: get("owner"),
+      classes: parseClasses(get("classes")),
+    };
+  }
+}
+
+// Import live class 9/42 marks from a USPTO bulk XML or CSV file
+export async function importTrademarkFile(
+  path: string,
+  onProgress?: (stats: ImportStats) => void,
+): Promise<ImportStats> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    throw new Error(`File not found: ${path}`);
+  }
+
+  const lower = path.toLowerCase();
+  let marks: AsyncGenerator<RawMark>;
+  if (lower.endsWith(".xml")) {
+    marks = readXmlMarks(file);
+  } else if (lower.endsWith(".csv")) {
+    marks = readCsvMarks(file);
+  } else {
+    throw new Error("Expected an .xml or .csv file (unzip bulk downloads first)");
+  }
+
+  const stats: ImportStats = { imported: 0, skipped: 0 };
+  let batch: TrademarkRow[] = [];
+
+  for await (const raw of marks) {
+    const row = toRow(raw);
+    if (!row) {
+      stats.skipped++;
+      continue;
+    }
+
+    batch.push(row);
+    if (batch.length >= BATCH_SIZE) {
+      addTrademarks(batch);
+      stats.imported += batch.length;
+      batch = [];
+      onProgress?.(stats);
+    }
+  }
+
+  if (batch.length > 0) {
+    addTrademarks(batch);
+    stats.imported += batch.length;
+  }
+
+  return stats;
+}
@@ -1,12 +1,93 @@
+// available: the name is free
+// taken: the name is registered
+// unknown: the check failed (network error, unexpected response)
+// manual: no automated lookup exists, follow the URL to check by hand
+// rate-limited: the platform refused to answer, retry later
+// invalid: the name breaks the platform's naming rules
+export type AvailabilityStatus =
+  | "available"
+  | "taken"
+  | "unknown"
+  | "manual"
+  | "rate-limited"
+  | "invalid";
+
+// Outcome of a checker's name rules: the canonical form to look up, or why
+// the name can't be used on that platform
+export type NameValidation =
+  | { valid: true; name: string }
+  | { valid: false; reason: string };
+
 export interface VariantResult {
   variant: string;
+  status: AvailabilityStatus;
   available: boolean;
   url?: string;
 }
 
+// An existing package whose name is confusable with the checked name
+export interface SimilarPackage {
+  name: string;
+  // separator: differs only in - _ . (foo-bar vs foo_bar)
+  // homoglyph: differs in look-alike characters (l vs 1, rn vs m)
+  // typo: within a small edit distance
+  reason: "separator" | "homoglyph" | "typo";
+  distance: number;
+  downloads?: number; // Approximate monthly downloads
+  url?: string;
+}
+
+// An existing package or module found by a registry lookup
+export interface PackageMatch {
+  name: string; // Module path, package path, ...
+  // exact: collides with the name (same module or command name)
+  // loose: search hit that merely contains the name
+  exact: boolean;
+  reason: string; // What matched, e.g. "module", "package", "search"
+  version?: string;
+  description?: string;
+  url?: string;
+}
+
+// Something already answering to a command name
+export interface CommandCollision {
+  // path: executable on the local $PATH
+  // shell: shell builtin or reserved word
+  // coreutils: GNU coreutils / POSIX utility
+  // package: shipped by a distro package (bundled Contents index)
+  // man: local man page
+  source: "path" | "shell" | "coreutils" | "package" | "man";
+  detail: string;
+  url?: string;
+}
+
+// A registered or pending trademark found by a trademark office lookup
+export interface TrademarkMatch {
+  mark: string;
+  office: "USPTO" | "EUIPO";
+  status: string; // As reported by the office, e.g. "REGISTERED"
+  live: boolean; // Registered or pending (not dead/expired/withdrawn)
+  owner?: string;
+  classes: number[]; // Nice classes
+  url?: string;
+  // How a locally imported mark matched (offline trademark-local checker)
+  match?: "exact" | "phonetic" | "fuzzy";
+}
+
+// A Wikipedia article or Wikidata entity that matches a name
+export interface NotableEntry {
+  title: string;
+  description?: string; // e.g. "JavaScript library"
+  source: "wikipedia" | "wikidata";
+  url: string;
+  exact: boolean; // Same name, ignoring case and disambiguation
+}
+
 export interface CheckResult {
   name: string;
   platform: string;
+  status: AvailabilityStatus;
+  // Convenience flag, true only when status is "available"
   available: boolean;
   url?: string;
   error?: string;
@@ -15,11 +96,52 @@ export interface CheckResult {
   activeCount?: number;
   // Variant data (for github-org checker)
   variants?: VariantResult[];
+  // Confusable existing packages (for similarity checkers)
+  conflicts?: SimilarPackage[];
+  // Existing packages/modules, exact and loose (for go and nixpkgs)
+  matches?: PackageMatch[];
+  // Existing commands with the same name (for the command checker)
+  collisions?: CommandCollision[];
+  // Matching marks (for trademark office checkers)
+  trademarks?: TrademarkMatch[];
+  // Wikipedia/Wikidata hits (for the notability checker)
+  notable?: NotableEntry[];
+  // Registry-canonical form that was looked up, when it differs from name
+  canonicalName?: string;
+  // Set when the result was served from the check cache
+  cached?: boolean;
+  checkedAt?: string;
 }
 
+export const CHECKER_CATEGORIES = [
+  "package",
+  "repository",
+  "domain",
+  "trademark",
+  "uniqueness",
+  "similarity",
+  "container",
+  "command",
+  "social",
+] as const;
+
+export type CheckerCategory = (typeof CHECKER_CATEGORIES)[number];
+
+// Checkers that report a signal (crowded search results, notable uses)
+// rather than availability, left out of availability counts
+export const SIGNAL_PLATFORMS = new Set(["github-uniqueness", "notability"]);
+
 export interface Checker {
   name: string;
-  category: "package" | "repository" | "domain" | "trademark" | "uniqueness";
+  category: CheckerCategory;
+  // How long results stay in the check cache (ms), defaults by category
+  cacheTtl?: number;
+  // Set by profiles: how much the check counts towards a name's availability
+  // score (default 1), and whether a name must be available here to qualify
+  weight?: number;
+  required?: boolean;
+  // Registry naming rules, applied before check() and the cache lookup
+  normalize?(name: string): NameValidation;
   check(name: string): Promise<CheckResult>;
 }
 
@@ -0,0 +1,81 @@
+import { checkWithCache } from "./cache";
+import { nameVariants } from "./checkers/namespace";
+import type { AvailabilityStatus, Checker, CheckResult } from "./types";
+
+// npm scope, PyPI, crates.io, a .com domain and the GitHub org
+export const DEFAULT_MATRIX_CHECKERS = [
+  "npm-org",
+  "pypi",
+  "crates.io",
+  "domain-com",
+  "github-org",
+];
+
+export interface VariantRow {
+  variant: string;
+  // Status per checker name
+  statuses: Record<string, AvailabilityStatus>;
+  // Available on every checker in the matrix
+  freeEverywhere: boolean;
+}
+
+export interface VariantMatrix {
+  name: string;
+  checkers: string[];
+  rows: VariantRow[];
+}
+
+function variantStatuses(
+  result: CheckResult,
+): Map<string, AvailabilityStatus> {
+  return new Map((result.variants ?? []).map((v) => [v.variant, v.status]));
+}
+
+// Status of every variant on one checker. Namespace checkers already look
+// up all variants for the base name; others are checked once per variant.
+async function checkVariants(
+  checker: Checker,
+  variants: string[],
+): Promise<AvailabilityStatus[]> {
+  let base = await checkWithCache(checker, variants[0]!);
+  let fromNamespace = variantStatuses(base);
+  // Results cached before a variant was configured don't have it, so look
+  // the namespace up again
+  if (base.cached && variants.some((v) => !fromNamespace.has(v))) {
+    base = await checkWithCache(checker, variants[0]!, "refresh");
+    fromNamespace = variantStatuses(base);
+  }
+  if (fromNamespace.has(variants[0]!)) {
+    return variants.map((v) => fromNamespace.get(v) ?? "unknown");
+  }
+
+  const results: CheckResult[] = await Promise.all(
+    variants.slice(1).map((variant) => checkWithCache(checker, variant)),
+  );
+  return [base, ...results].map((r) => r.status);
+}
+
+// Check every configured variant of a name on each checker
+export async function buildVariantMatrix(
+  name: string,
+  checkers: Checker[],
+): Promise<VariantMatrix> {
+  const variants = nameVariants(name);
+  const columns = await Promise.all(
+    checkers.map((checker) => checkVariants(checker, variants)),
+  );
+
+  const rows = variants.map((variant, i): VariantRow => {
+    const statuses: Record<string, AvailabilityStatus> = {};
+    checkers.forEach((checker, j) => {
+      statuses[checker.name] = columns[j]![i]!;
+    });
+    return {
+      variant,
+      statuses,
+      freeEverywhere: Object.values(statuses).every((s) => s === "available"),
+    };
+  });
+
+  return { name, checkers: checkers.map((c) => c.name), rows };
+}